@@ -0,0 +1,8 @@
+/**
+ * polymer-analyzer declares the `@babel/*` modules its typings import in terms
+ * of the `babel-*` typings, but TypeScript still loads the typings which
+ * `@babel/types` ships, and those use the `unknown` type of TypeScript 3.
+ * This stands in for it until TypeScript is updated, which makes this file
+ * an error.
+ */
+type unknown = any;
@@ -11,7 +11,7 @@
  * subject to an additional IP rights grant found at
  * http://polymer.github.io/PATENTS.txt
  */
-import {Analysis, Document} from 'polymer-analyzer';
+import {Analysis, Document, ResolvedUrl} from 'polymer-analyzer';
 
 export function getAnalysisDocument(analysis: Analysis, url: string): Document {
   const result = analysis.getDocument(url);
@@ -24,3 +24,31 @@ export function getAnalysisDocument(analysis: Analysis, url: string): Document {
   }
   throw new Error(`Unable to get document ${url}`);
 }
+
+/**
+ * Returns the HTML documents loaded by the given entrypoints as they load: the
+ * entrypoints which are HTML documents and the documents they import eagerly,
+ * directly or transitively.
+ */
+export function getEagerHtmlDocuments(
+    analysis: Analysis, entrypoints: Iterable<ResolvedUrl>): Document[] {
+  const htmlDocuments = new Map<ResolvedUrl, Document>();
+  for (const entrypoint of entrypoints) {
+    const result = analysis.getDocument(entrypoint);
+    if (!result.successful) {
+      continue;
+    }
+    const importedDocuments = result.value.getFeatures({
+      kind: 'html-document',
+      imported: true,
+      externalPackages: true,
+      noLazyImports: true,
+    });
+    for (const document of [result.value, ...importedDocuments]) {
+      if (document.kinds.has('html-document') && !document.isInline) {
+        htmlDocuments.set(document.url, document);
+      }
+    }
+  }
+  return [...htmlDocuments.values()];
+}
@@ -0,0 +1,176 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+import * as fs from 'fs';
+import {Analyzer, FileRelativeUrl, ResolvedUrl} from 'polymer-analyzer';
+import Uri from 'vscode-uri';
+
+import {AssignedBundle} from './bundle-manifest';
+import {Bundler} from './bundler';
+import constants from './constants';
+import {getFileExtension, isTemplatedUrl} from './url-utils';
+import {hash} from './utils';
+
+/**
+ * The MIME types of the kinds of assets referenced from styles and `src`
+ * attributes, like images and fonts, by file extension.
+ */
+const assetMimeTypes = new Map<string, string>([
+  ['.apng', 'image/apng'],
+  ['.avif', 'image/avif'],
+  ['.bmp', 'image/bmp'],
+  ['.gif', 'image/gif'],
+  ['.ico', 'image/x-icon'],
+  ['.jpeg', 'image/jpeg'],
+  ['.jpg', 'image/jpeg'],
+  ['.png', 'image/png'],
+  ['.svg', 'image/svg+xml'],
+  ['.webp', 'image/webp'],
+  ['.eot', 'application/vnd.ms-fontobject'],
+  ['.otf', 'font/otf'],
+  ['.ttf', 'font/ttf'],
+  ['.woff', 'font/woff'],
+  ['.woff2', 'font/woff2'],
+  ['.mp3', 'audio/mpeg'],
+  ['.ogg', 'audio/ogg'],
+  ['.wav', 'audio/wav'],
+  ['.mp4', 'video/mp4'],
+  ['.webm', 'video/webm'],
+]);
+
+/**
+ * Returns the MIME type of the asset at the URL, or undefined if the URL is
+ * not of a known kind of asset.
+ */
+export function getAssetMimeType(url: string): string|undefined {
+  return assetMimeTypes.get(getFileExtension(url).toLowerCase());
+}
+
+// The MIME types of assets which are text, and so can be loaded like other
+// files.
+const textAssetMimeTypes = new Set(['image/svg+xml']);
+
+/**
+ * Loads the content of the asset at the URL.  Text assets, like SVG images,
+ * are loaded through the analyzer's URL loader like other files, so plugins
+ * transform them too.  URL loaders decode content as UTF-8 text, which would
+ * corrupt binary assets, so binary assets are read as bytes from the
+ * filesystem, and binary assets which are not files can not be loaded.
+ */
+export async function loadAsset(
+    analyzer: Analyzer, url: ResolvedUrl): Promise<Buffer> {
+  if (textAssetMimeTypes.has(getAssetMimeType(url) || '')) {
+    return Buffer.from(await analyzer.load(url));
+  }
+  const path = url.startsWith('file:') ? Uri.parse(url).fsPath : undefined;
+  if (!path || !fs.existsSync(path)) {
+    throw new Error(`Unable to load binary asset ${url}`);
+  }
+  return fs.readFileSync(path);
+}
+
+/**
+ * Returns a base64 encoded `data:` URI for the content.
+ */
+export function getDataUri(mimeType: string, content: Buffer): string {
+  return `data:${mimeType};base64,${content.toString('base64')}`;
+}
+
+/**
+ * Returns the URL of the asset with a hash of its content appended to its
+ * file name, e.g. `images/logo-1a2b3c.png` for `images/logo.png`, so that it
+ * is suitable for long-term caching.
+ */
+export function getHashedAssetUrl(
+    url: ResolvedUrl, content: Buffer, hashLength: number = 6): ResolvedUrl {
+  const extname = getFileExtension(url);
+  const basename = url.slice(0, url.length - extname.length);
+  return `${basename}-${hash(content, hashLength)}${extname}` as ResolvedUrl;
+}
+
+/**
+ * Returns the href to use in the assigned bundle for the asset at the href: a
+ * `data:` URI if inlining is allowed and the asset is no larger than the
+ * `inlineAssetsMaxBytes` option, the URL of the hashed copy of the asset if
+ * the `hashAssetUrls` option is set, or else the href itself.  The href is
+ * returned unchanged if it is not a known kind of asset or could not be
+ * loaded.  Inlined and collected assets are recorded in the bundle.
+ */
+export async function rewriteAssetUrl(
+    bundler: Bundler,
+    assignedBundle: AssignedBundle,
+    href: string,
+    baseUrl: ResolvedUrl,
+    allowInlining: boolean): Promise<string> {
+  // Assets at other origins and URLs which are already `data:` URIs are left
+  // alone, though root-relative URLs are resolved.
+  if (isTemplatedUrl(href) || constants.EXTERNAL_URL.test(href) ||
+      /^(#|[\w-]+:)/.test(href)) {
+    return href;
+  }
+  const hrefWithoutSuffix = href.replace(/[?#].*$/, '');
+  const suffix = href.slice(hrefWithoutSuffix.length);
+  const mimeType = getAssetMimeType(hrefWithoutSuffix);
+  const url = bundler.analyzer.urlResolver.resolve(
+      baseUrl, hrefWithoutSuffix as FileRelativeUrl);
+  if (!mimeType || !url || !bundler.analyzer.canLoad(url) ||
+      bundler.isExcluded(url, assignedBundle.url)) {
+    return href;
+  }
+  let content: Buffer;
+  try {
+    content = await loadAsset(bundler.analyzer, url);
+  } catch (err) {
+    return href;
+  }
+  if (allowInlining && !suffix && bundler.inlineAssetsMaxBytes !== undefined &&
+      content.length <= bundler.inlineAssetsMaxBytes) {
+    assignedBundle.bundle.inlinedAssets.add(url);
+    return getDataUri(mimeType, content);
+  }
+  if (!bundler.collectAssets) {
+    return href;
+  }
+  const assetUrl =
+      bundler.hashAssetUrls ? getHashedAssetUrl(url, content) : url;
+  assignedBundle.bundle.assets.set(url, assetUrl);
+  if (assetUrl === url) {
+    return href;
+  }
+  return bundler.analyzer.urlResolver.relative(baseUrl, assetUrl) + suffix;
+}
+
+/**
+ * Given a string of CSS, return a version where the URLs of assets are
+ * rewritten as by `rewriteAssetUrl`.
+ */
+export async function rewriteCssAssetUrls(
+    bundler: Bundler,
+    assignedBundle: AssignedBundle,
+    cssText: string,
+    baseUrl: ResolvedUrl): Promise<string> {
+  const urls = cssText.match(constants.URL) || [];
+  const newUrls = new Map<string, string>();
+  for (const match of urls) {
+    const href = match.replace(/["']/g, '').slice(4, -1);
+    const newHref =
+        await rewriteAssetUrl(bundler, assignedBundle, href, baseUrl, true);
+    if (newHref !== href) {
+      newUrls.set(match, `url("${newHref}")`);
+    }
+  }
+  if (newUrls.size === 0) {
+    return cssText;
+  }
+  return cssText.replace(constants.URL, (match) => newUrls.get(match) || match);
+}
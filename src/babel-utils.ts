@@ -12,12 +12,26 @@
  * http://polymer.github.io/PATENTS.txt
  */
 import generate from 'babel-generator';
-import {GeneratorResult} from 'babel-generator';
+import {GeneratorOptions, GeneratorResult} from 'babel-generator';
 import {Node} from 'babel-types';
 
 /**
  * Convenience wrapper for generating source text from the babel AST node.
+ * When a `sourceFileName` is given, a source map is generated which maps the
+ * source text back to the locations of the AST nodes in that file.  When
+ * `minified` is true, the source text is generated without the whitespace and
+ * comments which don't matter, except license comments.
  */
-export function serialize(root: Node): GeneratorResult {
-  return generate(root, {quotes: 'single'});
+export function serialize(
+    root: Node, sourceFileName?: string, minified = false): GeneratorResult {
+  const options: GeneratorOptions = {quotes: 'single'};
+  if (sourceFileName) {
+    options.sourceMaps = true;
+    options.sourceFileName = sourceFileName;
+  }
+  if (minified) {
+    options.minified = true;
+    options.shouldPrintComment = (comment) => comment.includes('@license');
+  }
+  return generate(root, options);
 }
@@ -17,14 +17,22 @@ import * as commandLineUsage from 'command-line-usage';
 import * as fs from 'fs';
 import * as mkdirp from 'mkdirp';
 import * as pathLib from 'path';
+import {loadAsset} from '../assets';
+import {BudgetReport, formatBudgetReport} from '../budgets';
+import {BundlerConfig, defaultConfigFile, generateStrategy, loadConfig, StrategyStep} from '../config';
 import {Bundler} from '../bundler';
+import {IncrementalBundler} from '../incremental-bundler';
+import {generatePushManifest} from '../push-manifest';
 import {Analyzer, FsUrlLoader, MultiUrlLoader, MultiUrlResolver, PackageRelativeUrl, FsUrlResolver, RedirectResolver, ResolvedUrl, UrlLoader, UrlResolver} from 'polymer-analyzer';
 import {DocumentCollection} from '../document-collection';
-import {generateShellMergeStrategy, BundleManifest} from '../bundle-manifest';
+import {generateContentHashSharedBundleUrlMapper, generateHashedSharedBundleUrlMapper, BundleManifest} from '../bundle-manifest';
 import {ensureTrailingSlash, getFileUrl, resolvePath} from '../url-utils';
+import {watchFolders} from '../watch-utils';
+import {formatWarning, Severity, Warning} from '../warnings';
 
 const prefixArgument = '[underline]{prefix}';
 const pathArgument = '[underline]{path}';
+const urlArgument = '[underline]{url}';
 
 const optionDefinitions = [
   {name: 'help', type: Boolean, alias: 'h', description: 'Print this message'},
@@ -34,6 +42,17 @@ const optionDefinitions = [
     alias: 'v',
     description: 'Print version number'
   },
+  {
+    name: 'config',
+    type: String,
+    typeLabel: pathArgument,
+    description: 'Read options from the JSON config file at ' +
+        `${pathArgument} instead of ${defaultConfigFile} in the current ` +
+        'working folder, if present.  Options given on the command line ' +
+        'override the ones in the file.  The file can also give a list of ' +
+        'strategy steps, for multiple shells or custom strategies, and ' +
+        'excludes for the bundles matching a pattern.'
+  },
   {
     name: 'exclude',
     type: String,
@@ -47,6 +66,30 @@ const optionDefinitions = [
     description:
         'Strips all HTML comments not containing an @license from the document'
   },
+  {
+    name: 'minify-html',
+    type: Boolean,
+    description: 'Collapse the whitespace in the text of HTML bundles.'
+  },
+  {
+    name: 'minify-css',
+    type: Boolean,
+    description: 'Minify stylesheets and <style> elements, keeping comments ' +
+        'containing an @license.'
+  },
+  {
+    name: 'minify-js',
+    type: Boolean,
+    description: 'Minify scripts and ES6 modules, keeping comments ' +
+        'containing an @license.'
+  },
+  {
+    name: 'minify-templates',
+    type: Boolean,
+    description: 'Collapse the whitespace and strip the comments not ' +
+        'containing an @license in the html and css tagged templates of ES6 ' +
+        'modules.'
+  },
   {
     name: 'inline-scripts',
     type: Boolean,
@@ -57,6 +100,28 @@ const optionDefinitions = [
     type: Boolean,
     description: 'Inline external stylesheets'
   },
+  {
+    name: 'inline-assets-max-bytes',
+    type: Number,
+    typeLabel: '[underline]{bytes}',
+    description: 'Inline assets like images and fonts of at most ' +
+        '[underline]{bytes}, referenced from styles and src attributes, ' +
+        'as data: URIs.'
+  },
+  {
+    name: 'copy-assets',
+    type: Boolean,
+    description: 'Copy the assets like images and fonts referenced from ' +
+        'HTML bundles, and not inlined, to the --out-dir, and list them in ' +
+        'the manifest.'
+  },
+  {
+    name: 'hash-asset-urls',
+    type: Boolean,
+    description: 'Name the assets copied by --copy-assets after a hash of ' +
+        'their content, for long-term caching, and rewrite the references ' +
+        'to them.'
+  },
   {
     name: 'out-file',
     type: String,
@@ -71,12 +136,114 @@ const optionDefinitions = [
     description: 'If specified, the bundle manifest will be written to ' +
         `${pathArgument}.`
   },
+  {
+    name: 'push-manifest-out',
+    type: String,
+    typeLabel: pathArgument,
+    description: 'If specified, an HTTP/2 push manifest, mapping each ' +
+        'entrypoint bundle to the bundles, scripts and stylesheets it loads ' +
+        `eagerly, will be written to ${pathArgument}.`
+  },
+  {
+    name: 'csp-hashes-out',
+    type: String,
+    typeLabel: pathArgument,
+    description: 'If specified with --csp, the Content Security Policy ' +
+        'hashes of the inline scripts and styles left in each HTML bundle ' +
+        `will be written to ${pathArgument}.`
+  },
+  {
+    name: 'versioned-manifest',
+    type: Boolean,
+    description: 'Write the bundle manifest given by --manifest-out in the ' +
+        'versioned format, which keeps everything needed to read it back ' +
+        'with --manifest-in.'
+  },
+  {
+    name: 'manifest-in',
+    type: String,
+    typeLabel: pathArgument,
+    description: 'If specified, bundles will be produced as described by ' +
+        `the versioned bundle manifest at ${pathArgument} instead of being ` +
+        'generated from the input files.'
+  },
+  {
+    name: 'budgets',
+    type: String,
+    typeLabel: pathArgument,
+    description: 'Check the sizes of the bundles against the budgets in the ' +
+        `JSON file at ${pathArgument}, print a table of sizes and exit with ` +
+        'an error when a budget is exceeded.  The file has "bundles" and ' +
+        '"entrypoints" lists of budgets like ' +
+        '{"pattern": "shared_bundle_*.js", "maxBytes": 50000, ' +
+        '"maxGzipBytes": 10000}, where patterns are globs of package ' +
+        'relative URLs.'
+  },
+  {
+    name: 'fail-on-warnings',
+    type: Boolean,
+    description: 'Exit with an error when bundling finds any problems, like ' +
+        'imports which could not be loaded, even though bundles are still ' +
+        'written.  Errors, like entrypoints which could not be loaded, ' +
+        'always make it exit with an error.'
+  },
+  {
+    name: 'watch',
+    type: Boolean,
+    description: 'Keep running and bundle again whenever files in the ' +
+        'project root or redirected folders change.  Only the bundles ' +
+        'affected by the changes are written again.  Requires --out-dir.'
+  },
+  {
+    name: 'hash-shared-bundle-urls',
+    type: String,
+    typeLabel: '"files|content"',
+    description: 'Name shared bundles after a hash of either their sorted ' +
+        'list of files ("files") or their bundled content ("content"), ' +
+        'instead of counting them.  Hashed names only change when the ' +
+        'bundle changes, so they are suitable for long-term caching.'
+  },
   {
     name: 'shell',
     type: String,
     typeLabel: pathArgument,
     description: 'If specified, shared dependencies will be inlined into ' +
-        `${pathArgument}.`
+        `${pathArgument}.  Implies --strategy shell.`
+  },
+  {
+    name: 'strategy',
+    type: String,
+    typeLabel: '"shared|shell"',
+    description: 'The strategy for merging the dependencies shared by ' +
+        'entrypoints: "shared" merges them into shared bundles and "shell" ' +
+        'merges them into the --shell.  Defaults to "shared", or "shell" ' +
+        'when --shell is given.  The strategy given by these options ' +
+        'replaces the strategy in the config file.'
+  },
+  {
+    name: 'min-entrypoints',
+    type: Number,
+    typeLabel: '[underline]{count}',
+    description: 'The minimum number of entrypoints which must share a ' +
+        'dependency for it to be merged by the --strategy.  Defaults to 2.'
+  },
+  {
+    name: 'eager-merge',
+    type: String,
+    typeLabel: urlArgument,
+    multiple: true,
+    description: 'Merge the bundles eagerly loaded by the entrypoint at ' +
+        `${urlArgument} into its bundle, after applying the --strategy.  ` +
+        'Use multiple times for multiple entrypoints.'
+  },
+  {
+    name: 'no-back-link',
+    type: String,
+    typeLabel: urlArgument,
+    multiple: true,
+    description: `Do not link to ${urlArgument} from bundles which do not ` +
+        'contain it, e.g. because it is always loaded before them.  Use ' +
+        'multiple times for multiple URLs.'
   },
   {
     name: 'out-dir',
@@ -119,6 +286,51 @@ const optionDefinitions = [
     type: Boolean,
     description: 'Create and process sourcemaps for scripts.'
   },
+  {
+    name: 'treeshake',
+    type: Boolean,
+    description: 'Only export the exports of bundled ES6 modules which are ' +
+        'imported by other bundles or belong to entrypoints, and drop the ' +
+        'code left unused.'
+  },
+  {
+    name: 'output-format',
+    type: String,
+    typeLabel: '"es|system|amd|iife"',
+    description: 'The format of ES6 module bundles and module scripts: ES6 ' +
+        'modules ("es"), SystemJS or AMD modules ("system" or "amd"), or ' +
+        'self-executing scripts ("iife"), which only suit apps with a single ' +
+        'ES6 module bundle.  Defaults to "es".'
+  },
+  {
+    name: 'preload-module-bundles',
+    type: Boolean,
+    description: 'Add <link rel="modulepreload"> hints to HTML bundles for ' +
+        'the ES6 module bundles their module scripts import statically, ' +
+        'directly or transitively.'
+  },
+  {
+    name: 'prefetch-lazy-bundles',
+    type: Boolean,
+    description: 'Add <link rel="prefetch"> hints to HTML bundles for the ' +
+        'bundles only imported on demand, by dynamic import()s and lazy ' +
+        'imports.'
+  },
+  {
+    name: 'sri',
+    type: Boolean,
+    description: 'Add Subresource Integrity hashes of the bundles loaded by ' +
+        'HTML bundles to the tags loading them.'
+  },
+  {
+    name: 'csp',
+    type: String,
+    typeLabel: '"external|hashes"',
+    description: 'Make HTML bundles comply with a Content Security Policy ' +
+        'forbidding unsafe-inline: "external" moves their inline scripts to ' +
+        'files next to them, and "hashes" leaves them inline, to be allowed ' +
+        'by the hashes written to --csp-hashes-out.'
+  },
   {
     name: 'root',
     alias: 'r',
@@ -133,10 +345,10 @@ const optionDefinitions = [
     description: 'Algorithm to use for resolving module specifiers in import ' +
         'and export statements when rewriting them to be web-compatible. ' +
         'Valid values are "none" and "node". "none" disables module specifier ' +
-        'rewriting. "node" uses Node.js resolution to find modules.',
+        'rewriting. "node" uses Node.js resolution to find modules.  ' +
+        'Defaults to "none".',
     type: String,
     typeLabel: '"node|none"',
-    defaultValue: 'none',
   }
 ];
 
@@ -167,6 +379,12 @@ const usage = [
             'Inline scripts in \`target.html\` as well as HTML Imports. Exclude flags will apply to both Imports and Scripts.',
         example: 'polymer-bundler --inline-scripts target.html'
       },
+      {
+        desc:
+            'Merge the dependencies shared by at least 3 of the entrypoints into \`shell.html\`, and the dependencies eagerly loaded by \`view-1.html\` into its bundle.',
+        example:
+            'polymer-bundler --shell shell.html --min-entrypoints 3 --eager-merge view-1.html --out-dir build view-1.html view-2.html view-3.html'
+      },
       {
         desc: 'Route URLs starting with "myapp://" to folder "src/myapp".',
         example: 'polymer-bundler --redirect="myapp://|src/myapp" target.html'
@@ -176,6 +394,63 @@ const usage = [
 ];
 
 const options = commandLineArgs(optionDefinitions);
+
+let config: BundlerConfig = {};
+const configPath = options.config ||
+    (fs.existsSync(defaultConfigFile) ? defaultConfigFile : undefined);
+if (configPath) {
+  try {
+    config = loadConfig(configPath);
+  } catch (err) {
+    console.error(err.message);
+    process.exit(1);
+  }
+}
+
+// Options given on the command line override the ones in the config file.
+const configOptionNames: Array<[string, keyof BundlerConfig]> = [
+  ['in-file', 'entrypoints'],
+  ['root', 'root'],
+  ['out-dir', 'outDir'],
+  ['out-file', 'outFile'],
+  ['manifest-in', 'manifestIn'],
+  ['manifest-out', 'manifestOut'],
+  ['push-manifest-out', 'pushManifestOut'],
+  ['csp-hashes-out', 'cspHashesOut'],
+  ['versioned-manifest', 'versionedManifest'],
+  ['exclude', 'excludes'],
+  ['inline-css', 'inlineCss'],
+  ['inline-scripts', 'inlineScripts'],
+  ['inline-assets-max-bytes', 'inlineAssetsMaxBytes'],
+  ['copy-assets', 'copyAssets'],
+  ['hash-asset-urls', 'hashAssetUrls'],
+  ['rewrite-urls-in-templates', 'rewriteUrlsInTemplates'],
+  ['sourcemaps', 'sourcemaps'],
+  ['strip-comments', 'stripComments'],
+  ['minify-html', 'minifyHtml'],
+  ['minify-css', 'minifyCss'],
+  ['minify-js', 'minifyJs'],
+  ['minify-templates', 'minifyTemplates'],
+  ['treeshake', 'treeshake'],
+  ['output-format', 'outputFormat'],
+  ['preload-module-bundles', 'preloadModuleBundles'],
+  ['prefetch-lazy-bundles', 'prefetchLazyBundles'],
+  ['sri', 'sri'],
+  ['csp', 'csp'],
+  ['module-resolution', 'moduleResolution'],
+  ['hash-shared-bundle-urls', 'hashSharedBundleUrls'],
+  ['fail-on-warnings', 'failOnWarnings'],
+];
+for (const [name, key] of configOptionNames) {
+  if (options[name] === undefined && config[key] !== undefined) {
+    options[name] = config[key];
+  }
+}
+if (options.redirect === undefined && config.redirects) {
+  options.redirect =
+      config.redirects.map(({prefix, path}) => `${prefix}|${path}`);
+}
+
 const projectRoot = resolvePath(ensureTrailingSlash(options.root || '.'));
 
 const entrypoints: PackageRelativeUrl[] = options['in-file'];
@@ -194,18 +469,79 @@ if (options.version) {
   process.exit(0);
 }
 
-if (options.help || !entrypoints) {
+if (options.help || !(entrypoints || options['manifest-in'])) {
   printHelp();
   process.exit(0);
 }
 
+if (options.watch && (options['manifest-in'] || !options['out-dir'])) {
+  console.error(
+      '--watch requires --out-dir and can not be used with ' +
+      '--manifest-in.');
+  process.exit(1);
+}
+
+if ((options['copy-assets'] || options['hash-asset-urls']) &&
+    !options['out-dir']) {
+  console.error('--copy-assets and --hash-asset-urls require --out-dir.');
+  process.exit(1);
+}
+
 options.excludes = options.exclude || [];
 options.stripComments = options['strip-comments'];
+options.minify = {
+  html: Boolean(options['minify-html']),
+  css: Boolean(options['minify-css']),
+  js: Boolean(options['minify-js']),
+  templates: Boolean(options['minify-templates']),
+};
 options.implicitStrip = !options['no-implicit-strip'];
 options.inlineScripts = Boolean(options['inline-scripts']);
 options.inlineCss = Boolean(options['inline-css']);
 options.rewriteUrlsInTemplates = Boolean(options['rewrite-urls-in-templates']);
-options.moduleResolution = options['module-resolution'];
+options.inlineAssetsMaxBytes = options['inline-assets-max-bytes'];
+if (options.inlineAssetsMaxBytes !== undefined &&
+    !(options.inlineAssetsMaxBytes >= 0)) {
+  console.error(
+      `Invalid --inline-assets-max-bytes value ` +
+      `"${options.inlineAssetsMaxBytes}". It must be a number of bytes.`);
+  process.exit(1);
+}
+options.collectAssets =
+    Boolean(options['copy-assets'] || options['hash-asset-urls']);
+options.hashAssetUrls = Boolean(options['hash-asset-urls']);
+options.moduleResolution = options['module-resolution'] || 'none';
+options.outputFormat = options['output-format'];
+options.preloadModuleBundles = Boolean(options['preload-module-bundles']);
+options.prefetchLazyBundles = Boolean(options['prefetch-lazy-bundles']);
+options.sri = Boolean(options['sri']);
+options.csp = options['csp'];
+if (options.outputFormat !== undefined &&
+    ['es', 'system', 'amd', 'iife'].indexOf(options.outputFormat) === -1) {
+  console.error(
+      `Invalid --output-format value "${options.outputFormat}". ` +
+      `Valid values are "es", "system", "amd" and "iife".`);
+  process.exit(1);
+}
+if (options.csp !== undefined &&
+    ['external', 'hashes'].indexOf(options.csp) === -1) {
+  console.error(
+      `Invalid --csp value "${options.csp}". ` +
+      `Valid values are "external" and "hashes".`);
+  process.exit(1);
+}
+if (options['budgets']) {
+  try {
+    options.budgets =
+        JSON.parse(fs.readFileSync(options['budgets']).toString());
+  } catch (err) {
+    console.error(
+        `Unable to read budgets file ${options['budgets']}: ${err.message}`);
+    process.exit(1);
+  }
+} else {
+  options.budgets = config.budgets;
+}
 
 const {moduleResolution} = options;
 const urlLoader = new FsUrlLoader(projectRoot);
@@ -216,15 +552,17 @@ type Redirection = {
   prefix: ResolvedUrl; path: ResolvedUrl;
 };
 
+let redirections: Redirection[] = [];
+
 if (options.redirect) {
-  const redirections: Redirection[] =
-      options.redirect
-          .map((redirect: string) => {
-            const [prefix, path] = redirect.split('|');
-            const resolvedPrefix = urlResolver.resolve(prefix as any);
-            return {prefix: resolvedPrefix, path};
-          })
-          .filter((r: Redirection) => r.prefix && r.path);
+  redirections = options.redirect
+                     .map((redirect: string) => {
+                       const [prefix, path] = redirect.split('|');
+                       const resolvedPrefix =
+                           urlResolver.resolve(prefix as any);
+                       return {prefix: resolvedPrefix, path};
+                     })
+                     .filter((r: Redirection) => r.prefix && r.path);
   const resolvers: UrlResolver[] = redirections.map(
       (r: Redirection) =>
           new RedirectResolver(projectRootUrl, r.prefix, getFileUrl(r.path)));
@@ -243,9 +581,308 @@ if (!options.analyzer) {
   options.analyzer = new Analyzer({moduleResolution, urlResolver, urlLoader});
 }
 
-if (options.shell) {
-  options.strategy =
-      generateShellMergeStrategy(options.analyzer.resolveUrl(options.shell), 2);
+const hashSharedBundleUrls = options['hash-shared-bundle-urls'];
+if (hashSharedBundleUrls) {
+  if (hashSharedBundleUrls !== 'files' && hashSharedBundleUrls !== 'content') {
+    console.error(
+        `Invalid --hash-shared-bundle-urls value "${hashSharedBundleUrls}". ` +
+        `Valid values are "files" and "content".`);
+    process.exit(1);
+  }
+  const sharedBundleUrlPrefix = options.analyzer.resolveUrl('shared_bundle_');
+  // Shared bundles are always initially named after their files, since content
+  // hashes are only known once bundles have been produced.
+  options.urlMapper =
+      generateHashedSharedBundleUrlMapper(sharedBundleUrlPrefix);
+  if (hashSharedBundleUrls === 'content') {
+    options.contentUrlMapper =
+        generateContentHashSharedBundleUrlMapper(sharedBundleUrlPrefix);
+  }
+}
+
+/**
+ * Resolves a package relative URL given in the options or config file.
+ */
+function resolveOptionUrl(url: string): ResolvedUrl {
+  const resolvedUrl = options.analyzer.resolveUrl(url);
+  if (!resolvedUrl) {
+    throw new Error(`Unable to resolve URL ${url}`);
+  }
+  return resolvedUrl;
+}
+
+/**
+ * Returns the strategy steps given by the --strategy, --shell,
+ * --min-entrypoints, --eager-merge and --no-back-link options, or undefined if
+ * none of them were given.
+ */
+function getStrategySteps(): StrategyStep[]|undefined {
+  if (['strategy', 'shell', 'min-entrypoints', 'eager-merge', 'no-back-link']
+          .every((name) => options[name] === undefined)) {
+    return undefined;
+  }
+  const strategyName = options.strategy || (options.shell ? 'shell' : 'shared');
+  if (strategyName !== 'shared' && strategyName !== 'shell') {
+    throw new Error(
+        `Invalid --strategy value "${strategyName}". ` +
+        `Valid values are "shared" and "shell".`);
+  }
+  if (strategyName === 'shell' && !options.shell) {
+    throw new Error('--strategy shell requires --shell.');
+  }
+  if (strategyName === 'shared' && options.shell) {
+    throw new Error('--shell can not be used with --strategy shared.');
+  }
+  const minEntrypoints = options['min-entrypoints'];
+  if (minEntrypoints !== undefined &&
+      !(minEntrypoints >= 0 && minEntrypoints % 1 === 0)) {
+    throw new Error(
+        `Invalid --min-entrypoints value "${minEntrypoints}". ` +
+        `It must be a whole number.`);
+  }
+  const steps: StrategyStep[] =
+      [strategyName === 'shell' ?
+           {type: 'shell', url: options.shell, minEntrypoints} :
+           {type: 'shared', minEntrypoints}];
+  for (const url of options['eager-merge'] || []) {
+    steps.push({type: 'eager-merge', url});
+  }
+  if (options['no-back-link']) {
+    steps.push({type: 'no-back-link', urls: options['no-back-link']});
+  }
+  return steps;
+}
+
+// Options given on the command line replace the strategy in the config file.
+let strategySteps: StrategyStep[]|undefined;
+try {
+  strategySteps = getStrategySteps() || config.strategy;
+} catch (err) {
+  console.error(err.message);
+  process.exit(1);
+}
+
+// Shells are always bundled, so they are added to the entrypoints.
+const shells: PackageRelativeUrl[] = [];
+for (const step of strategySteps || []) {
+  if (step.type === 'shell') {
+    shells.push(step.url as PackageRelativeUrl);
+  }
+}
+// The strategy named by --strategy is replaced by the composed strategy.
+options.strategy =
+    strategySteps && generateStrategy(strategySteps, resolveOptionUrl);
+
+if (config.bundleExcludes) {
+  options.bundleExcludes = config.bundleExcludes.map(
+      ({pattern, excludes}) =>
+          ({pattern, excludes: excludes.map(resolveOptionUrl)}));
+}
+
+/**
+ * Writes the manifest to the --manifest-out path, if given.
+ */
+function writeManifest(
+    bundler: Bundler,
+    manifest: BundleManifest,
+    bundledManifest: BundleManifest) {
+  if (!options['manifest-out']) {
+    return;
+  }
+  // The versioned manifest is written from the manifest given to the
+  // bundler, since bundling records state in the bundles, like the imports
+  // it has inlined, which would change the result of bundling it again.
+  const manifestJson = options['versioned-manifest'] ?
+      manifest.toVersionedJson(bundler.analyzer.urlResolver) :
+      bundledManifest.toJson(bundler.analyzer.urlResolver);
+  const fd = fs.openSync(options['manifest-out'], 'w');
+  fs.writeSync(fd, JSON.stringify(manifestJson));
+  fs.closeSync(fd);
+}
+
+/**
+ * Writes the push manifest of the bundles at the URLs to the
+ * --push-manifest-out path, if given.
+ */
+async function writePushManifest(
+    bundler: Bundler,
+    manifest: BundleManifest,
+    bundleUrls: Iterable<ResolvedUrl>) {
+  if (!options['push-manifest-out']) {
+    return;
+  }
+  const pushManifest =
+      await generatePushManifest(bundler.analyzer, manifest, bundleUrls);
+  fs.writeFileSync(
+      options['push-manifest-out'], JSON.stringify(pushManifest, null, 2));
+}
+
+/**
+ * Writes the Content Security Policy hashes of the HTML bundles at the URLs,
+ * keyed by their package relative URLs, to the --csp-hashes-out path, if
+ * given.
+ */
+function writeCspHashes(
+    bundler: Bundler,
+    manifest: BundleManifest,
+    bundleUrls: Iterable<ResolvedUrl>) {
+  if (!options['csp-hashes-out']) {
+    return;
+  }
+  const cspHashes: {[url: string]: string[]} = {};
+  for (const url of [...bundleUrls].sort()) {
+    const bundle = manifest.bundles.get(url);
+    if (bundle && bundle.type === 'html-fragment') {
+      cspHashes[bundler.analyzer.urlResolver.relative(url)] = bundle.cspHashes;
+    }
+  }
+  fs.writeFileSync(
+      options['csp-hashes-out'], JSON.stringify(cspHashes, null, 2));
+}
+
+/**
+ * Writes the documents to their package relative paths in the --out-dir.
+ */
+function writeDocuments(bundler: Bundler, documents: DocumentCollection) {
+  const outDir = options['out-dir'];
+  for (const [url, document] of documents) {
+    // When writing the output bundles to the filesystem, we need their paths
+    // to be package relative, since the destination is different than their
+    // original filesystem locations.
+    const out = resolvePath(outDir, bundler.analyzer.urlResolver.relative(url));
+    const finalDir = pathLib.dirname(out);
+    mkdirp.sync(finalDir);
+    const fd = fs.openSync(out, 'w');
+    fs.writeSync(fd, document.content);
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Copies the assets collected for the bundles at the URLs to their package
+ * relative paths in the --out-dir, if --copy-assets is given.
+ */
+async function writeAssets(
+    bundler: Bundler,
+    manifest: BundleManifest,
+    bundleUrls: Iterable<ResolvedUrl>) {
+  if (!bundler.collectAssets) {
+    return;
+  }
+  const outDir = options['out-dir'];
+  const written = new Set<ResolvedUrl>();
+  for (const bundleUrl of bundleUrls) {
+    const bundle = manifest.bundles.get(bundleUrl);
+    if (!bundle) {
+      continue;
+    }
+    for (const [url, assetUrl] of bundle.assets) {
+      if (written.has(assetUrl)) {
+        continue;
+      }
+      written.add(assetUrl);
+      const out =
+          resolvePath(outDir, bundler.analyzer.urlResolver.relative(assetUrl));
+      mkdirp.sync(pathLib.dirname(out));
+      fs.writeFileSync(out, await loadAsset(bundler.analyzer, url));
+    }
+  }
+}
+
+/**
+ * Prints the table of bundle sizes of the budget report, if any, and returns
+ * true if a budget was exceeded.  The table is printed to stderr, since a
+ * single bundle may be written to stdout.
+ */
+function printBudgetReport(bundler: Bundler, budgetReport?: BudgetReport):
+    boolean {
+      if (!budgetReport) {
+        return false;
+      }
+      console.error(
+          formatBudgetReport(budgetReport, bundler.analyzer.urlResolver));
+      return budgetReport.exceeded.length > 0;
+    }
+
+/**
+ * Prints the warnings which are not merely informational to stderr and
+ * returns true if there were any.
+ */
+function printWarnings(bundler: Bundler, warnings: Warning[]):
+    boolean {
+      const problems = warnings.filter((w) => w.severity !== Severity.INFO);
+      for (const warning of problems) {
+        console.error(formatWarning(warning, bundler.analyzer.urlResolver));
+      }
+      return problems.length > 0;
+    }
+
+/**
+ * Watches the project root and redirected folders, bundling again whenever
+ * files change and logging which bundles were written.
+ */
+function watch(incrementalBundler: IncrementalBundler) {
+  const bundler = incrementalBundler.bundler;
+  const folders =
+      [projectRoot, ...redirections.map((r) => resolvePath(r.path))];
+  // Files written by the bundler must not trigger bundling again.
+  const outDir = ensureTrailingSlash(resolvePath(options['out-dir']));
+  const manifestOuts = [
+    options['manifest-out'],
+    options['push-manifest-out'],
+    options['csp-hashes-out']
+  ].filter((path) => path).map((path) => resolvePath(path));
+  let changedUrls = new Set<ResolvedUrl>();
+  let rebuilding = false;
+
+  async function rebuild() {
+    if (rebuilding || changedUrls.size === 0) {
+      return;
+    }
+    rebuilding = true;
+    const urls = [...changedUrls];
+    changedUrls = new Set();
+    const start = Date.now();
+    try {
+      const {generatedManifest, manifest, documents, budgetReport, warnings} =
+          await incrementalBundler.rebuild(urls);
+      writeManifest(bundler, generatedManifest, manifest);
+      // Every bundle was written by the first build, so the push manifest
+      // covers all of them, not only the ones produced again.
+      await writePushManifest(bundler, manifest, manifest.bundles.keys());
+      writeCspHashes(bundler, manifest, manifest.bundles.keys());
+      writeDocuments(bundler, documents);
+      await writeAssets(bundler, manifest, documents.keys());
+      // Changes which don't affect any bundle are not worth mentioning.
+      if (documents.size > 0) {
+        const bundleList =
+            [...documents.keys()]
+                .map((url) => bundler.analyzer.urlResolver.relative(url))
+                .join(', ');
+        console.log(
+            `Rebundled ${documents.size} of ${manifest.bundles.size} ` +
+            `bundles in ${Date.now() - start}ms: ${bundleList}`);
+        printBudgetReport(bundler, budgetReport);
+      }
+      printWarnings(bundler, warnings);
+    } catch (err) {
+      console.error(err);
+    }
+    rebuilding = false;
+    // Bundle again for the changes made while bundling, if any.
+    await rebuild();
+  }
+
+  watchFolders(folders, (paths: string[]) => {
+    for (const path of paths) {
+      if (path.startsWith(outDir) || manifestOuts.includes(path)) {
+        continue;
+      }
+      changedUrls.add(getFileUrl(path));
+    }
+    rebuild();
+  });
+  console.log(`Watching ${folders.join(', ')} for changes.`);
 }
 
 (async () => {
@@ -253,30 +890,63 @@ if (options.shell) {
 
   let documents: DocumentCollection;
   let manifest: BundleManifest;
+  let bundledManifest: BundleManifest;
+  let budgetReport: BudgetReport|undefined;
+  let warnings: Warning[];
+  let incrementalBundler: IncrementalBundler|undefined;
   try {
-    const shell = options.shell;
-    if (shell) {
-      if (entrypoints.indexOf(shell) === -1) {
-        entrypoints.push(shell);
+    if (options['manifest-in']) {
+      manifest = BundleManifest.fromJson(
+          JSON.parse(fs.readFileSync(options['manifest-in']).toString()),
+          bundler.analyzer.urlResolver);
+      ({documents, manifest: bundledManifest, budgetReport, warnings} =
+           await bundler.bundle(manifest));
+    } else {
+      for (const shell of shells) {
+        if (entrypoints.indexOf(shell) === -1) {
+          entrypoints.push(shell);
+        }
+      }
+      const resolvedEntrypoints = entrypoints.map((e) => {
+        const resolvedUrl = bundler.analyzer.resolveUrl(e);
+        if (!resolvedUrl) {
+          throw new Error(`Unable to resolve URL for entrypoint ${e}`);
+        }
+        return resolvedUrl;
+      });
+      if (options.watch) {
+        incrementalBundler =
+            new IncrementalBundler(bundler, resolvedEntrypoints);
+        ({
+          generatedManifest: manifest,
+          manifest: bundledManifest,
+          documents,
+          budgetReport,
+          warnings
+        } = await incrementalBundler.build());
+      } else {
+        manifest = await bundler.generateManifest(resolvedEntrypoints);
+        ({documents, manifest: bundledManifest, budgetReport, warnings} =
+             await bundler.bundle(manifest));
       }
     }
-    ({documents, manifest} = await bundler.bundle(
-         await bundler.generateManifest(entrypoints.map((e) => {
-           const resolvedUrl = bundler.analyzer.resolveUrl(e);
-           if (!resolvedUrl) {
-             throw new Error(`Unable to resolve URL for entrypoint ${e}`);
-           }
-           return resolvedUrl;
-         }))));
   } catch (err) {
-    console.log(err);
+    console.error(err);
+    process.exitCode = 1;
     return;
   }
-  if (options['manifest-out']) {
-    const manifestJson = manifest.toJson(bundler.analyzer.urlResolver);
-    const fd = fs.openSync(options['manifest-out'], 'w');
-    fs.writeSync(fd, JSON.stringify(manifestJson));
-    fs.closeSync(fd);
+  writeManifest(bundler, manifest, bundledManifest);
+  await writePushManifest(bundler, bundledManifest, documents.keys());
+  writeCspHashes(bundler, bundledManifest, documents.keys());
+  // Bundles are still written when over budget or with warnings, so they can
+  // be inspected.
+  const exceededBudget = printBudgetReport(bundler, budgetReport);
+  const hasWarnings = printWarnings(bundler, warnings);
+  const hasErrors = warnings.some((w) => w.severity === Severity.ERROR);
+  if (!incrementalBundler &&
+      (exceededBudget || hasErrors ||
+       (hasWarnings && options['fail-on-warnings']))) {
+    process.exitCode = 1;
   }
   const outDir = options['out-dir'];
   if (documents.size > 1 || outDir) {
@@ -284,21 +954,16 @@ if (options.shell) {
       throw new Error(
           'Must specify out-dir when bundling multiple entrypoints');
     }
-    for (const [url, document] of documents) {
-      // When writing the output bundles to the filesystem, we need their paths
-      // to be package relative, since the destination is different than their
-      // original filesystem locations.
-      const out =
-          resolvePath(outDir, bundler.analyzer.urlResolver.relative(url));
-      const finalDir = pathLib.dirname(out);
-      mkdirp.sync(finalDir);
-      const fd = fs.openSync(out, 'w');
-      fs.writeSync(fd, document.content);
-      fs.closeSync(fd);
+    writeDocuments(bundler, documents);
+    await writeAssets(bundler, bundledManifest, documents.keys());
+    if (incrementalBundler) {
+      watch(incrementalBundler);
     }
     return;
   }
-  const doc = documents.get(bundler.analyzer.resolveUrl(entrypoints[0])!);
+  const doc = entrypoints ?
+      documents.get(bundler.analyzer.resolveUrl(entrypoints[0])!) :
+      [...documents.values()][0];
   if (!doc) {
     return;
   }
@@ -0,0 +1,191 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+import {Minimatch} from 'minimatch';
+import {Analyzer, ResolvedUrl, UrlResolver} from 'polymer-analyzer';
+import * as zlib from 'zlib';
+
+import {BundleManifest} from './bundle-manifest';
+import {getBundleImports} from './bundle-order';
+import {DocumentCollection} from './document-collection';
+
+/**
+ * A maximum size for the bundles, or sets of bundles, whose URLs match a glob
+ * pattern.  Patterns are matched against package relative URLs, e.g.
+ * `shared_bundle_*.js` or `src/**`.
+ */
+export interface SizeBudget {
+  pattern: string;
+  // The maximum number of bytes of the bundled content.
+  maxBytes?: number;
+  // The maximum number of bytes of the bundled content once gzipped.
+  maxGzipBytes?: number;
+}
+
+export interface Budgets {
+  // Budgets for each bundle whose URL matches.
+  bundles?: SizeBudget[];
+  // Budgets for the total size of the bundles loaded by each entrypoint whose
+  // URL matches: the bundle of the entrypoint and the bundles it imports
+  // eagerly, directly or transitively.
+  entrypoints?: SizeBudget[];
+}
+
+export interface SizeMeasurement {
+  url: ResolvedUrl;
+  bytes: number;
+  gzipBytes: number;
+}
+
+export interface EntrypointSizeMeasurement extends SizeMeasurement {
+  // The URLs of the bundles loaded by the entrypoint.
+  bundles: ResolvedUrl[];
+}
+
+export interface ExceededBudget {
+  kind: 'bundle'|'entrypoint';
+  measurement: SizeMeasurement;
+  budget: SizeBudget;
+}
+
+export interface BudgetReport {
+  bundles: SizeMeasurement[];
+  entrypoints: EntrypointSizeMeasurement[];
+  exceeded: ExceededBudget[];
+}
+
+/**
+ * Measures the documents and the sets of bundles loaded by the entrypoints in
+ * the manifest and checks them against the budgets.  Entrypoints which load
+ * bundles not in the documents, as when only some bundles were produced, are
+ * not measured, and neither are the inline scripts of HTML entrypoints, which
+ * are loaded by the bundles of their documents.
+ */
+export async function checkBudgets(
+    budgets: Budgets,
+    analyzer: Analyzer,
+    manifest: BundleManifest,
+    documents: DocumentCollection): Promise<BudgetReport> {
+  const urlResolver = analyzer.urlResolver;
+  const report: BudgetReport = {bundles: [], entrypoints: [], exceeded: []};
+  const bundleSizes = new Map<ResolvedUrl, SizeMeasurement>();
+  for (const [url, document] of documents) {
+    const measurement = {
+      url,
+      bytes: Buffer.byteLength(document.content),
+      gzipBytes: zlib.gzipSync(document.content).length,
+    };
+    bundleSizes.set(url, measurement);
+    report.bundles.push(measurement);
+  }
+
+  const bundleImports = await getBundleImports(analyzer, manifest);
+  const entrypointBundles = new Map<ResolvedUrl, ResolvedUrl[]>();
+  for (const bundle of manifest.bundles.values()) {
+    for (const entrypoint of bundle.entrypoints) {
+      // Sub-bundle entrypoints, like `a.html>inline#1>es6-module`, stand for
+      // the inline scripts of documents and are not entrypoints of their own.
+      const entrypointBundle = manifest.getBundleForFile(entrypoint);
+      if (entrypoint.includes('>') || entrypointBundles.has(entrypoint) ||
+          !entrypointBundle) {
+        continue;
+      }
+      const bundles = [entrypointBundle.url];
+      for (const bundleUrl of bundles) {
+        for (const importUrl of bundleImports.get(bundleUrl)!.eager) {
+          if (!bundles.includes(importUrl)) {
+            bundles.push(importUrl);
+          }
+        }
+      }
+      entrypointBundles.set(entrypoint, bundles);
+    }
+  }
+  for (const [url, bundles] of entrypointBundles) {
+    if (!bundles.every((bundleUrl) => bundleSizes.has(bundleUrl))) {
+      continue;
+    }
+    report.entrypoints.push({
+      url,
+      bundles,
+      bytes: bundles.reduce((sum, b) => sum + bundleSizes.get(b)!.bytes, 0),
+      gzipBytes:
+          bundles.reduce((sum, b) => sum + bundleSizes.get(b)!.gzipBytes, 0),
+    });
+  }
+
+  const check =
+      (kind: 'bundle' | 'entrypoint',
+       measurements: SizeMeasurement[],
+       sizeBudgets: SizeBudget[] = []) => {
+        for (const budget of sizeBudgets) {
+          const matcher = new Minimatch(budget.pattern);
+          for (const measurement of measurements) {
+            if (!matcher.match(urlResolver.relative(measurement.url))) {
+              continue;
+            }
+            if ((budget.maxBytes !== undefined &&
+                 measurement.bytes > budget.maxBytes) ||
+                (budget.maxGzipBytes !== undefined &&
+                 measurement.gzipBytes > budget.maxGzipBytes)) {
+              report.exceeded.push({kind, measurement, budget});
+            }
+          }
+        }
+      };
+  check('bundle', report.bundles, budgets.bundles);
+  check('entrypoint', report.entrypoints, budgets.entrypoints);
+  return report;
+}
+
+/**
+ * Formats a budget report as a table of sizes, followed by a line for each
+ * exceeded budget.
+ */
+export function formatBudgetReport(
+    report: BudgetReport, urlResolver: UrlResolver): string {
+  const rows: string[][] = [['', 'bytes', 'gzip bytes']];
+  const addRows = (title: string, measurements: SizeMeasurement[]) => {
+    for (const {url, bytes, gzipBytes} of measurements) {
+      rows.push([
+        `${title} ${urlResolver.relative(url)}`,
+        String(bytes),
+        String(gzipBytes)
+      ]);
+    }
+  };
+  addRows('bundle', report.bundles);
+  addRows('entrypoint', report.entrypoints);
+  const widths = [0, 1, 2].map(
+      (column) => Math.max(...rows.map((row) => row[column].length)));
+  const lines = rows.map(
+      (row) => row.map(
+                      (cell, column) => column === 0 ?
+                          cell + ' '.repeat(widths[column] - cell.length) :
+                          ' '.repeat(widths[column] - cell.length) + cell)
+                   .join('  '));
+  for (const {kind, measurement, budget} of report.exceeded) {
+    const limits = [];
+    if (budget.maxBytes !== undefined) {
+      limits.push(`${budget.maxBytes} bytes`);
+    }
+    if (budget.maxGzipBytes !== undefined) {
+      limits.push(`${budget.maxGzipBytes} gzip bytes`);
+    }
+    lines.push(
+        `Budget exceeded: ${kind} ` +
+        `${urlResolver.relative(measurement.url)} is over ` +
+        `${limits.join(' / ')} (budget "${budget.pattern}").`);
+  }
+  return lines.join('\n');
+}
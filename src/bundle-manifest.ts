@@ -16,8 +16,9 @@ import * as clone from 'clone';
 import {PackageRelativeUrl, ResolvedUrl, UrlResolver} from 'polymer-analyzer';
 
 import {getSuperBundleUrl} from './deps-index';
-import {getFileExtension} from './url-utils';
-import {partitionMap, uniq} from './utils';
+import {getFileExtension, stripUrlFileSearchAndHash} from './url-utils';
+import {hash, partitionMap, setEquals, uniq} from './utils';
+import {Warning} from './warnings';
 
 /**
  * A bundle strategy function is used to transform an array of bundles.
@@ -29,6 +30,13 @@ export type BundleStrategy = (bundles: Bundle[]) => Bundle[];
  */
 export type BundleUrlMapper = (bundles: Bundle[]) => Map<ResolvedUrl, Bundle>;
 
+/**
+ * A bundle content URL mapper function produces the final URL of a bundle,
+ * given the URL assigned to it in the manifest and its bundled content.
+ */
+export type BundleContentUrlMapper =
+    (url: ResolvedUrl, bundle: Bundle, content: string) => ResolvedUrl;
+
 /**
  * A mapping of entrypoints to their full set of transitive dependencies,
  * such that a dependency graph `a->c, c->d, d->e, b->d, b->f` would be
@@ -40,13 +48,22 @@ export type TransitiveDependenciesMap = Map<ResolvedUrl, Set<ResolvedUrl>>;
 /**
  * The output format of the bundle.
  */
-export type BundleType = 'html-fragment' | 'es6-module';
+export type BundleType =
+    'html-fragment' | 'es6-module' | 'css' | 'classic-script';
 
 export const bundleTypeExtnames = new Map<BundleType, string>([
   ['es6-module', '.js'],
   ['html-fragment', '.html'],
+  ['css', '.css'],
+  ['classic-script', '.js'],
 ]);
 
+/**
+ * The types of bundles which are linked from HTML bundles, rather than
+ * imported, when they are shared.
+ */
+const linkedBundleTypes = new Set<BundleType>(['css', 'classic-script']);
+
 /**
  * A bundle is a grouping of files which serve the need of one or more
  * entrypoint files.
@@ -62,11 +79,28 @@ export class Bundle {
   inlinedHtmlImports = new Set<ResolvedUrl>();
   inlinedScripts = new Set<ResolvedUrl>();
   inlinedStyles = new Set<ResolvedUrl>();
+  inlinedAssets = new Set<ResolvedUrl>();
+
+  // Maps the URLs of the assets referenced by the bundle, when collected, to
+  // the URLs they are referenced by in the bundled document, which differ
+  // when asset URLs are hashed.
+  assets = new Map<ResolvedUrl, ResolvedUrl>();
 
   // Maps the URLs of bundled ES6 modules to a map of their original exported
   // names to names which may have been rewritten to prevent conflicts.
   bundledExports = new Map<ResolvedUrl, Map<string, string>>();
 
+  // Problems found while bundling, other than missing imports.
+  warnings: Warning[] = [];
+
+  // The Subresource Integrity metadata of the bundled document, recorded once
+  // it is produced when the `sri` option is set.
+  integrity: string|undefined;
+
+  // The Content Security Policy hashes of the inline scripts and styles left
+  // in the bundled document, recorded when the `csp` option is set.
+  cspHashes: string[] = [];
+
   constructor(
       // Filetype discriminator for Bundles.
       public type: BundleType,
@@ -93,6 +127,28 @@ export interface BundleManifestJson {
   [entrypoint: string]: PackageRelativeUrl[];
 }
 
+/**
+ * The version of the schema written by `BundleManifest#toVersionedJson` and
+ * read by `BundleManifest.fromJson`.
+ */
+export const bundleManifestJsonVersion = 2;
+
+export interface BundleJson {
+  url: PackageRelativeUrl;
+  type: BundleType;
+  entrypoints: PackageRelativeUrl[];
+  files: PackageRelativeUrl[];
+  stripImports?: PackageRelativeUrl[];
+  // Maps the URLs of bundled ES6 modules to a map of their original exported
+  // names to the names they are exported as from the bundle.
+  bundledExports?: {[moduleUrl: string]: {[name: string]: string}};
+}
+
+export interface VersionedBundleManifestJson {
+  version: number;
+  bundles: BundleJson[];
+}
+
 /**
  * A bundle manifest is a mapping of URLs to bundles.
  */
@@ -100,6 +156,10 @@ export class BundleManifest {
   // Map of bundle URL to bundle.
   bundles: Map<ResolvedUrl, Bundle>;
 
+  // Problems found while generating the manifest, like entrypoints which
+  // could not be loaded.
+  warnings: Warning[] = [];
+
   // Map of file URL to bundle URL.
   private _bundleUrlForFile: Map<ResolvedUrl, ResolvedUrl>;
 
@@ -121,11 +181,97 @@ export class BundleManifest {
     }
   }
 
+  /**
+   * Creates a manifest from the JSON produced by `toVersionedJson`, resolving
+   * its package-relative URLs with the given resolver.  Bundles keep the URLs
+   * and order given in the JSON.
+   */
+  static fromJson(json: VersionedBundleManifestJson, urlResolver: UrlResolver):
+      BundleManifest {
+    if (json.version !== bundleManifestJsonVersion) {
+      throw new Error(
+          `Unsupported bundle manifest version ${json.version}; ` +
+          `expected version ${bundleManifestJsonVersion}.`);
+    }
+    const resolve = (url: string): ResolvedUrl => {
+      const resolvedUrl = urlResolver.resolve(url as PackageRelativeUrl);
+      if (!resolvedUrl) {
+        throw new Error(`Unable to resolve URL ${url} in bundle manifest.`);
+      }
+      return resolvedUrl;
+    };
+    const bundles = new Map<ResolvedUrl, Bundle>();
+    const bundleUrlForFile = new Map<ResolvedUrl, ResolvedUrl>();
+    for (const bundleJson of json.bundles) {
+      const url = resolve(bundleJson.url);
+      if (bundles.has(url)) {
+        throw new Error(`Duplicate bundle ${url} in bundle manifest.`);
+      }
+      if (!bundleTypeExtnames.has(bundleJson.type)) {
+        throw new Error(
+            `Unknown type "${bundleJson.type}" for bundle ${url} in ` +
+            `bundle manifest.`);
+      }
+      const bundle = new Bundle(
+          bundleJson.type,
+          new Set(bundleJson.entrypoints.map(resolve)),
+          new Set(bundleJson.files.map(resolve)));
+      for (const fileUrl of bundle.files) {
+        const otherBundleUrl = bundleUrlForFile.get(fileUrl);
+        if (otherBundleUrl) {
+          throw new Error(
+              `File ${fileUrl} is in both bundles ${otherBundleUrl} and ` +
+              `${url} in bundle manifest.`);
+        }
+        bundleUrlForFile.set(fileUrl, url);
+      }
+      for (const stripImport of bundleJson.stripImports || []) {
+        bundle.stripImports.add(resolve(stripImport));
+      }
+      const bundledExports = bundleJson.bundledExports || {};
+      for (const moduleUrl of Object.keys(bundledExports)) {
+        const names = bundledExports[moduleUrl];
+        bundle.bundledExports.set(
+            resolve(moduleUrl),
+            new Map(Object.keys(names).map(
+                (name): [string, string] => [name, names[name]])));
+      }
+      bundles.set(url, bundle);
+    }
+    return new BundleManifest([...bundles.values()], () => bundles);
+  }
+
   // Returns a clone of the manifest.
   fork(): BundleManifest {
     return clone(this);
   }
 
+  /**
+   * Assigns a new URL to the bundle with the given URL, preserving the order
+   * of the bundles in the manifest.
+   */
+  renameBundle(url: ResolvedUrl, newUrl: ResolvedUrl) {
+    const bundle = this.bundles.get(url);
+    if (!bundle) {
+      throw new Error(`No bundle found in manifest for url ${url}.`);
+    }
+    if (this.bundles.has(newUrl)) {
+      throw new Error(
+          `Can not rename bundle ${url} to ${newUrl} because that URL is ` +
+          `already assigned to another bundle.`);
+    }
+    this.bundles = new Map([...this.bundles].map(
+        ([u, b]): [ResolvedUrl, Bundle] => [u === url ? newUrl : u, b]));
+    for (const fileUrl of bundle.files) {
+      this._bundleUrlForFile.set(fileUrl, newUrl);
+    }
+    for (const b of this.bundles.values()) {
+      if (b.stripImports.delete(url)) {
+        b.stripImports.add(newUrl);
+      }
+    }
+  }
+
   // Convenience method to return a bundle for a constituent file URL.
   getBundleForFile(url: ResolvedUrl): AssignedBundle|undefined {
     const bundleUrl = this._bundleUrlForFile.get(url);
@@ -137,6 +283,7 @@ export class BundleManifest {
   toJson(urlResolver: UrlResolver): BundleManifestJson {
     const json = {};
     const missingImports: Set<ResolvedUrl> = new Set();
+    const assets: Set<ResolvedUrl> = new Set();
 
     for (const [url, bundle] of this.bundles) {
       json[urlResolver.relative(url)] =
@@ -148,12 +295,22 @@ export class BundleManifest {
             ...bundle.files,
             ...bundle.inlinedHtmlImports,
             ...bundle.inlinedScripts,
-            ...bundle.inlinedStyles
+            ...bundle.inlinedStyles,
+            ...bundle.inlinedAssets
           ])].map((url: ResolvedUrl) => urlResolver.relative(url));
 
       for (const missingImport of bundle.missingImports) {
         missingImports.add(missingImport);
       }
+      for (const assetUrl of bundle.assets.values()) {
+        assets.add(assetUrl);
+      }
+    }
+    if (assets.size > 0) {
+      json['_assets'] =
+          [...assets]
+              .map((url: ResolvedUrl) => urlResolver.relative(url))
+              .sort();
     }
     if (missingImports.size > 0) {
       json['_missing'] = [...missingImports].map(
@@ -161,6 +318,38 @@ export class BundleManifest {
     }
     return json;
   }
+
+  /**
+   * Produces a JSON representation of the manifest which, unlike `toJson`,
+   * keeps everything needed to load it again with `BundleManifest.fromJson`.
+   * To reproduce a set of bundles, serialize the manifest given to
+   * `Bundler#bundle()` rather than the one it returns, which includes state
+   * recorded during bundling such as the imports which were inlined.
+   */
+  toVersionedJson(urlResolver: UrlResolver): VersionedBundleManifestJson {
+    const relative = (url: ResolvedUrl) => urlResolver.relative(url);
+    const bundles: BundleJson[] = [];
+    for (const [url, bundle] of this.bundles) {
+      const bundledExports: {[moduleUrl: string]:
+                                 {[name: string]: string}} = {};
+      for (const [moduleUrl, names] of bundle.bundledExports) {
+        const namesJson: {[name: string]: string} = {};
+        for (const [name, exportName] of names) {
+          namesJson[name] = exportName;
+        }
+        bundledExports[relative(moduleUrl)] = namesJson;
+      }
+      bundles.push({
+        url: relative(url),
+        type: bundle.type,
+        entrypoints: [...bundle.entrypoints].map(relative),
+        files: [...bundle.files].map(relative),
+        stripImports: [...bundle.stripImports].map(relative),
+        bundledExports,
+      });
+    }
+    return {version: bundleManifestJsonVersion, bundles};
+  }
 }
 
 /**
@@ -174,7 +363,9 @@ export function composeStrategies(strategies: BundleStrategy[]):
 
 /**
  * Given an index of files and their dependencies, produce an array of bundles,
- * where a bundle is defined for each set of dependencies.
+ * where a bundle is defined for each set of dependencies.  Stylesheets and
+ * the classic scripts of HTML entrypoints are grouped into CSS and classic
+ * script bundles apart from the other dependencies.
  *
  * For example, a dependency index representing the graph:
  *   `a->b, b->c, b->d, e->c, e->f`
@@ -196,13 +387,15 @@ export function generateBundles(depsIndex: TransitiveDependenciesMap):
     const dep: ResolvedUrl = entry[0];
     const entrypoints: Set<ResolvedUrl> = entry[1];
 
-    // Find the bundle defined by the specific set of shared dependant
-    // entrypoints.
-    let bundle =
-        bundles.find((bundle) => setEquals(entrypoints, bundle.entrypoints));
+    const type = getBundleTypeForDependency(dep, [...entrypoints][0]);
+
+    // Find the bundle of the type defined by the specific set of shared
+    // dependant entrypoints.
+    let bundle = bundles.find(
+        (bundle) =>
+            bundle.type === type && setEquals(entrypoints, bundle.entrypoints));
 
     if (!bundle) {
-      const type = getBundleTypeForUrl([...entrypoints][0]);
       bundle = new Bundle(type, entrypoints);
       bundles.push(bundle);
     }
@@ -263,6 +456,97 @@ export function mergeSingleEntrypointSubBundles(bundles: Bundle[]) {
   }
 }
 
+/**
+ * Stylesheets and classic scripts are only linked as bundles of their own
+ * when they serve a set of entrypoints which no HTML bundle serves, so CSS and
+ * classic script bundles are merged into the HTML bundle with the same
+ * entrypoints, if any, where they can be inlined.
+ *
+ * For example, the following bundles:
+ *   `[a]->[a,b], [a]->[a.css], [a,c]->[ac.css], [a,d]->[ad], [a,d]->[ad.js]`
+ *
+ * Would be merged into the following set of bundles:
+ *   `[a]->[a,b,a.css], [a,c]->[ac.css], [a,d]->[ad,ad.js]`
+ */
+export function mergeLinkedBundlesIntoHtmlBundles(bundles: Bundle[]) {
+  for (const linkedBundle of [...bundles]) {
+    if (!linkedBundleTypes.has(linkedBundle.type)) {
+      continue;
+    }
+    const htmlBundleIndex = bundles.findIndex(
+        (b) => b.type === 'html-fragment' &&
+            setEquals(b.entrypoints, linkedBundle.entrypoints));
+    if (htmlBundleIndex < 0) {
+      continue;
+    }
+    const mergedBundle =
+        mergeBundles([bundles[htmlBundleIndex], linkedBundle], true);
+    bundles.splice(htmlBundleIndex, 1, mergedBundle);
+    bundles.splice(bundles.indexOf(linkedBundle), 1);
+  }
+}
+
+/**
+ * A linked bundle replaces the elements referencing its files at the position
+ * of the first of them, and concatenates its files in their order, so it can
+ * only serve a document in which the elements referencing its files are
+ * adjacent and in that order.  Splits the bundle into bundles for which this
+ * holds in each of the given sequences, which list the files referenced by
+ * the elements of a document in its order, with `undefined` for each element
+ * which can not be bundled, like an inline script or an HTML import.
+ *
+ * The files are first partitioned by the given key function, so that files
+ * which can not be concatenated, like strict and sloppy mode scripts, are
+ * never in the same bundle.
+ *
+ * For example, the bundle `[a,b,c,d]` with the sequences `[a,b,undefined,c,d]`
+ * and `[a,b,c,d]` would be split into the bundles `[a,b]` and `[c,d]`.
+ */
+export function splitLinkedBundleIntoRuns(
+    bundle: Bundle,
+    sequences: Array<Array<ResolvedUrl|undefined>>,
+    getKey: (url: ResolvedUrl) => string = () => ''): Bundle[] {
+  let groups = [...partitionMap(bundle.files, getKey).values()];
+  let groupCount;
+  do {
+    groupCount = groups.length;
+    // A file is signed with its group and the runs it is in, where a run is
+    // a series of files of the same group adjacent in a sequence and in the
+    // order of the group.  Files with the same signature stay together.
+    const groupIndexes = new Map<ResolvedUrl, number>();
+    groups.forEach(
+        (group, index) => group.forEach((url) => groupIndexes.set(url, index)));
+    const signatures = new Map<ResolvedUrl, string[]>([...groupIndexes].map(
+        ([url, index]): [ResolvedUrl, string[]] => [url, [`${index}`]]));
+    sequences.forEach((sequence, sequenceIndex) => {
+      let run = 0;
+      let previous: ResolvedUrl|undefined = undefined;
+      for (const url of sequence) {
+        if (url === undefined || !bundle.files.has(url)) {
+          previous = undefined;
+          continue;
+        }
+        const group = groups[groupIndexes.get(url)!];
+        if (previous === undefined ||
+            group[group.indexOf(url) - 1] !== previous) {
+          ++run;
+        }
+        signatures.get(url)!.push(`${sequenceIndex}:${run}`);
+        previous = url;
+      }
+    });
+    groups =
+        [...partitionMap(bundle.files, (url) => signatures.get(url)!.join(' '))
+             .values()];
+  } while (groups.length !== groupCount);
+  if (groups.length === 1) {
+    return [bundle];
+  }
+  return groups.map(
+      (files) =>
+          new Bundle(bundle.type, new Set(bundle.entrypoints), new Set(files)));
+}
+
 /**
  * Creates a bundle URL mapper function which takes a prefix and appends an
  * incrementing value, starting with `1` to the filename.
@@ -277,6 +561,20 @@ export function generateCountingSharedBundleUrlMapper(urlPrefix: ResolvedUrl):
       });
 }
 
+/**
+ * Creates a bundle content URL mapper function which names shared bundles
+ * by appending a hash of their bundled content to the prefix.  Bundles which
+ * are named after one of their own files keep their URLs.
+ */
+export function generateContentHashSharedBundleUrlMapper(
+    urlPrefix: ResolvedUrl, hashLength: number = 6): BundleContentUrlMapper {
+  return (url: ResolvedUrl, bundle: Bundle, content: string) =>
+             bundle.files.has(url) ?
+      url :
+      `${urlPrefix}${hash(content, hashLength)}${bundle.extname}` as
+          ResolvedUrl;
+}
+
 /**
  * Generates a strategy function which finds all non-entrypoint bundles which
  * are dependencies of the given entrypoint and merges them into that
@@ -289,6 +587,30 @@ export function generateEagerMergeStrategy(entrypoint: ResolvedUrl):
           b.entrypoints.has(entrypoint) && !getBundleEntrypoint(b));
 }
 
+/**
+ * Creates a bundle URL mapper function which names shared bundles by
+ * appending a hash of their sorted file URLs to the prefix, so that a shared
+ * bundle keeps its name for as long as it contains the same files.  File URLs
+ * are hashed relative to the folder of the prefix, so names do not depend on
+ * where the project is located.
+ */
+export function generateHashedSharedBundleUrlMapper(
+    urlPrefix: ResolvedUrl, hashLength: number = 6): BundleUrlMapper {
+  const baseUrl = stripUrlFileSearchAndHash(urlPrefix);
+  return generateSharedBundleUrlMapper(
+      (sharedBundles: Bundle[]): ResolvedUrl[] => sharedBundles.map((b) => {
+        const fileList = [...b.files]
+                             .map(
+                                 (url) => url.startsWith(baseUrl) ?
+                                     url.slice(baseUrl.length) :
+                                     url)
+                             .sort()
+                             .join('\n');
+        return `${urlPrefix}${hash(fileList, hashLength)}${b.extname}` as
+            ResolvedUrl;
+      }));
+}
+
 /**
  * Generates a strategy function which finds all bundles matching the predicate
  * function and merges them into the bundle containing the target file.
@@ -423,6 +745,8 @@ export function mergeBundles(
          inlinedHtmlImports,
          inlinedScripts,
          inlinedStyles,
+         inlinedAssets,
+         assets,
          bundledExports,
        } of bundles) {
     newBundle.entrypoints =
@@ -434,6 +758,10 @@ export function mergeBundles(
         new Set<ResolvedUrl>([...newBundle.inlinedScripts, ...inlinedScripts]);
     newBundle.inlinedStyles =
         new Set<ResolvedUrl>([...newBundle.inlinedStyles, ...inlinedStyles]);
+    newBundle.inlinedAssets =
+        new Set<ResolvedUrl>([...newBundle.inlinedAssets, ...inlinedAssets]);
+    newBundle.assets =
+        new Map<ResolvedUrl, ResolvedUrl>([...newBundle.assets, ...assets]);
     newBundle.bundledExports = new Map<ResolvedUrl, Map<string, string>>(
         [...newBundle.bundledExports, ...bundledExports]);
   }
@@ -477,6 +805,25 @@ function getBundleEntrypoint(bundle: Bundle): ResolvedUrl|null {
   return bundleEntrypoint;
 }
 
+/**
+ * Returns the type of the bundle for a dependency of the entrypoint.
+ * Stylesheets are bundled in CSS bundles, and the scripts which HTML
+ * entrypoints depend on directly are classic scripts, since module scripts
+ * are the dependencies of sub-bundle entrypoints.
+ */
+function getBundleTypeForDependency(
+    url: ResolvedUrl, entrypointUrl: ResolvedUrl): BundleType {
+  const type = getBundleTypeForUrl(url);
+  if (type === 'css') {
+    return type;
+  }
+  const entrypointType = getBundleTypeForUrl(entrypointUrl);
+  if (type === 'es6-module' && entrypointType === 'html-fragment') {
+    return 'classic-script';
+  }
+  return entrypointType;
+}
+
 /**
  * Generally bundle types are determined by the file extension of the URL,
  * though in the case of sub-bundles, the bundle type is the last segment of the
@@ -486,7 +833,10 @@ function getBundleTypeForUrl(url: ResolvedUrl): BundleType {
   const segments = url.split('>');
   if (segments.length === 1) {
     const extname = getFileExtension(segments[0]);
-    return extname === '.js' ? 'es6-module' : 'html-fragment';
+    if (extname === '.js') {
+      return 'es6-module';
+    }
+    return extname === '.css' ? 'css' : 'html-fragment';
   }
   if (segments.length === 0) {
     throw new Error(`ResolvedUrl "${url}" is empty/invalid.`);
@@ -512,19 +862,3 @@ function invertMultimap(multimap: Map<any, Set<any>>): Map<any, Set<any>> {
 
   return inverted;
 }
-
-/**
- * Returns true if both sets contain exactly the same items.  This check is
- * order-independent.
- */
-function setEquals(set1: Set<any>, set2: Set<any>): boolean {
-  if (set1.size !== set2.size) {
-    return false;
-  }
-  for (const item of set1) {
-    if (!set2.has(item)) {
-      return false;
-    }
-  }
-  return true;
-}
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+import {Analyzer, ResolvedUrl} from 'polymer-analyzer';
+
+import {BundleManifest} from './bundle-manifest';
+
+/**
+ * The URLs of the other bundles a bundle imports.
+ */
+export interface BundleImports {
+  // Bundles imported as the bundle loads, by HTML imports, module imports,
+  // scripts, stylesheets etc.
+  eager: Set<ResolvedUrl>;
+  // Bundles imported on demand, by dynamic `import()`s and
+  // `<link rel="lazy-import">`s.
+  lazy: Set<ResolvedUrl>;
+}
+
+/**
+ * Returns a map of bundle URLs to the URLs of the other bundles they import,
+ * determined by the imports of the files in each bundle.
+ */
+export async function getBundleImports(
+    analyzer: Analyzer,
+    manifest: BundleManifest): Promise<Map<ResolvedUrl, BundleImports>> {
+  const files = [...manifest.bundles.values()].reduce(
+      (files, bundle) => files.concat([...bundle.files]), [] as ResolvedUrl[]);
+  const analysis = await analyzer.analyze(files);
+  const bundleImports = new Map<ResolvedUrl, BundleImports>();
+  for (const [url, bundle] of manifest.bundles) {
+    const imports = {
+      eager: new Set<ResolvedUrl>(),
+      lazy: new Set<ResolvedUrl>()
+    };
+    bundleImports.set(url, imports);
+    for (const file of bundle.files) {
+      const result = analysis.getDocument(file);
+      if (!result.successful) {
+        continue;
+      }
+      for (const imprt of result.value.getFeatures({
+             kind: 'import',
+             externalPackages: true,
+             imported: false,
+             excludeBackreferences: true,
+           })) {
+        if (imprt.document === undefined) {
+          continue;
+        }
+        const importBundle = manifest.getBundleForFile(imprt.document.url);
+        if (!importBundle || importBundle.url === url) {
+          continue;
+        }
+        // The analyzer marks stylesheet links as lazy, but they are loaded
+        // with the document.
+        if (imprt.lazy && imprt.type !== 'html-style') {
+          imports.lazy.add(importBundle.url);
+        } else {
+          imports.eager.add(importBundle.url);
+        }
+      }
+    }
+  }
+  return bundleImports;
+}
+
+/**
+ * Returns a map of bundle URLs to the URLs of the other bundles they
+ * reference, determined by the imports (HTML imports, module imports,
+ * scripts, stylesheets etc.) of the files in each bundle.
+ */
+export async function getBundleDependencies(
+    analyzer: Analyzer,
+    manifest: BundleManifest): Promise<Map<ResolvedUrl, Set<ResolvedUrl>>> {
+  const dependencies = new Map<ResolvedUrl, Set<ResolvedUrl>>();
+  for (const [url, {eager, lazy}] of await getBundleImports(
+           analyzer, manifest)) {
+    dependencies.set(url, new Set([...eager, ...lazy]));
+  }
+  return dependencies;
+}
+
+/**
+ * Returns the URLs of all bundles in the manifest, grouped and ordered such
+ * that every bundle comes after the bundles it references.  Bundles which
+ * reference each other, directly or transitively, can not be ordered and
+ * share a group.  The order is stable for a given manifest.
+ *
+ * For example, bundles with references `a->b, b->c, c->b, d->a` would be
+ * ordered `[[c,b], [a], [d]]`.
+ */
+export async function getBundleUrlsInDependencyOrder(
+    analyzer: Analyzer, manifest: BundleManifest): Promise<ResolvedUrl[][]> {
+  const dependencies = await getBundleDependencies(analyzer, manifest);
+  const groups: ResolvedUrl[][] = [];
+
+  // This is Tarjan's strongly connected components algorithm, which emits
+  // each group only after all groups it references.
+  const indexes = new Map<ResolvedUrl, number>();
+  const lowLinks = new Map<ResolvedUrl, number>();
+  const stack: ResolvedUrl[] = [];
+  const onStack = new Set<ResolvedUrl>();
+
+  function visit(url: ResolvedUrl) {
+    indexes.set(url, indexes.size);
+    lowLinks.set(url, indexes.get(url)!);
+    stack.push(url);
+    onStack.add(url);
+    for (const dependency of [...dependencies.get(url)!].sort()) {
+      if (!indexes.has(dependency)) {
+        visit(dependency);
+        lowLinks.set(
+            url, Math.min(lowLinks.get(url)!, lowLinks.get(dependency)!));
+      } else if (onStack.has(dependency)) {
+        lowLinks.set(
+            url, Math.min(lowLinks.get(url)!, indexes.get(dependency)!));
+      }
+    }
+    if (lowLinks.get(url) === indexes.get(url)) {
+      const group: ResolvedUrl[] = [];
+      let member: ResolvedUrl;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        group.push(member);
+      } while (member !== url);
+      groups.push(group);
+    }
+  }
+
+  for (const url of manifest.bundles.keys()) {
+    if (!indexes.has(url)) {
+      visit(url);
+    }
+  }
+  return groups;
+}
@@ -11,68 +11,177 @@
  * subject to an additional IP rights grant found at
  * http://polymer.github.io/PATENTS.txt
  */
+import {Minimatch} from 'minimatch';
 import {Analyzer, Document, FsUrlLoader, InMemoryOverlayUrlLoader, ResolvedUrl} from 'polymer-analyzer';
 
 import {getAnalysisDocument} from './analyzer-utils';
+import {BudgetReport, Budgets, checkBudgets} from './budgets';
 import * as bundleManifestLib from './bundle-manifest';
-import {Bundle, BundleManifest, BundleStrategy, BundleUrlMapper} from './bundle-manifest';
+import {Bundle, BundleContentUrlMapper, BundleManifest, BundleStrategy, BundleUrlMapper} from './bundle-manifest';
+import {getBundleUrlsInDependencyOrder} from './bundle-order';
+import {bundle as bundleClassicScript, splitBundle as splitClassicScriptBundle} from './classic-script-bundler';
+import {bundle as bundleCss, splitBundle as splitCssBundle} from './css-bundler';
 import * as depsIndexLib from './deps-index';
 import {BundledDocument, DocumentCollection} from './document-collection';
 import {bundle as bundleEs6Module} from './es6-module-bundler';
-import {reserveBundleModuleExportNames} from './es6-module-utils';
+import {getImportedModuleExportNames, ModuleFormat, reserveBundleModuleExportNames} from './es6-module-utils';
 import {bundle as bundleHtmlFragment} from './html-bundler';
-import {resolvePath} from './url-utils';
+import {MinifyOptions} from './minify';
+import {BundlerPlugin, TransformingUrlLoader, transformManifest} from './plugins';
+import {ensureTrailingSlash, resolvePath} from './url-utils';
+import {getIntegrity} from './utils';
+import {Severity, Warning} from './warnings';
 
 export * from './bundle-manifest';
+export {BundlerPlugin} from './plugins';
 
 // TODO(usergenic): Add plylog
 export interface Options {
   // The instance of the Polymer Analyzer which has completed analysis
   analyzer?: Analyzer;
 
+  // Maximum sizes for bundles and for the bundles loaded by entrypoints,
+  // checked once bundles are produced.  See 'src/budgets'.
+  budgets?: Budgets;
+
   // URLs of files and/or folders that should not be inlined. HTML tags
   // referencing excluded URLs are preserved.'
   excludes?: ResolvedUrl[];
 
+  // URLs of files and/or folders that should not be inlined into the bundles
+  // whose package relative URLs match the glob patterns, though they may still
+  // be inlined into other bundles.
+  bundleExcludes?: BundleExcludes[];
+
+  // Makes HTML bundles comply with a Content Security Policy forbidding
+  // `unsafe-inline`: 'external' moves their inline scripts to external files
+  // next to them, and both modes record the CSP hashes of the inline scripts
+  // and styles left in them, in the `cspHashes` of their bundles.
+  csp?: CspMode;
+
   // When true, inline external CSS file contents into <style> tags in the
   // output document.
   inlineCss?: boolean;
 
+  // When given, assets like images and fonts of at most this many bytes,
+  // referenced from styles and `src` attributes of HTML bundles, are inlined
+  // as `data:` URIs.
+  inlineAssetsMaxBytes?: number;
+
   // When true, inline external Javascript file contents into <script> tags in
   // the output document.
   inlineScripts?: boolean;
 
+  // Switches for minifying HTML bundles by collapsing whitespace, for
+  // minifying stylesheets, and for minifying scripts and ES6 modules, in
+  // bundles of any type.  License comments are kept and source maps are
+  // updated.
+  minify?: MinifyOptions;
+
+  // The format of ES6 module bundles and of the module scripts of HTML
+  // bundles: 'es' for ES6 modules, the default, 'system' or 'amd' for the
+  // SystemJS or AMD module loaders, or 'iife' for self-executing scripts,
+  // which only suit apps with a single ES6 module bundle: bundling fails when
+  // a bundle would import another, statically or with a dynamic `import()`.
+  // Module script tags in HTML bundles are rewritten to load the bundles
+  // accordingly.
+  outputFormat?: ModuleFormat;
+
+  // Plugins hooking into the loading of source files, the resolution of
+  // module imports, and the generation of the manifest and HTML bundles.  See
+  // 'src/plugins'.
+  plugins?: BundlerPlugin[];
+
+  // When true, HTML bundles get `<link rel="modulepreload">` hints for the ES6
+  // module bundles their module scripts import statically, directly or
+  // transitively, so the browser can fetch them all at once.
+  preloadModuleBundles?: boolean;
+
+  // When true, HTML bundles get `<link rel="prefetch">` hints for the bundles
+  // only imported on demand, by dynamic `import()`s and
+  // `<link rel="lazy-import">`s.
+  prefetchLazyBundles?: boolean;
+
   // Rewrite element attributes inside of templates to adjust URLs in inlined
   // html imports.
   rewriteUrlsInTemplates?: boolean;
 
+  // When true, bundles are produced in dependency order and the tags of HTML
+  // bundles which load other bundles get `integrity` attributes with the
+  // SHA-384 hashes of those bundles, so they can be served from other origins.
+  sri?: boolean;
+
   // Create identity source maps for inline scripts
   sourcemaps?: boolean;
 
   // Remove of all comments (except those containing '@license') when true.
   stripComments?: boolean;
 
+  // When true, the assets like images and fonts referenced from HTML bundles,
+  // and not inlined, are collected in the `assets` of their bundles, so they
+  // can be copied alongside the bundles.
+  collectAssets?: boolean;
+
+  // When true, collected assets are named after a hash of their content, and
+  // the references to them in HTML bundles are rewritten to match.
+  hashAssetUrls?: boolean;
+
   // Bundle strategy used to construct the output bundles.
   strategy?: BundleStrategy;
 
+  // When true, ES6 module bundles only re-export the exports of their modules
+  // which are imported by other bundles, or which belong to entrypoint
+  // modules, and the code left unused is dropped.
+  treeshake?: boolean;
+
   // Bundle URL mapper function that produces URLs for the generated bundles.
   urlMapper?: BundleUrlMapper;
+
+  // Bundle content URL mapper function that produces the final URLs for the
+  // bundles once their content is known, e.g. to name shared bundles after a
+  // hash of their content.
+  contentUrlMapper?: BundleContentUrlMapper;
+}
+
+export type CspMode = 'external' | 'hashes';
+
+export interface BundleExcludes {
+  pattern: string;
+  excludes: ResolvedUrl[];
 }
 
 export interface BundleResult {
   documents: DocumentCollection;
   manifest: BundleManifest;
+  // The sizes of the bundles checked against the budgets, when given.
+  budgetReport?: BudgetReport;
+  // Problems found while generating the manifest and producing the bundles.
+  warnings: Warning[];
 }
 
 export class Bundler {
   analyzer: Analyzer;
+  budgets: Budgets|undefined;
+  bundleExcludes: BundleExcludes[];
+  collectAssets: boolean;
+  contentUrlMapper: BundleContentUrlMapper|undefined;
+  csp: CspMode|undefined;
   enableCssInlining: boolean;
   enableScriptInlining: boolean;
   excludes: ResolvedUrl[];
+  hashAssetUrls: boolean;
+  inlineAssetsMaxBytes: number|undefined;
+  minify: MinifyOptions;
+  outputFormat: ModuleFormat;
+  plugins: BundlerPlugin[];
+  prefetchLazyBundles: boolean;
+  preloadModuleBundles: boolean;
   rewriteUrlsInTemplates: boolean;
   sourcemaps: boolean;
+  sri: boolean;
   stripComments: boolean;
   strategy: BundleStrategy;
+  treeshake: boolean;
   urlMapper: BundleUrlMapper;
 
   private _overlayUrlLoader: InMemoryOverlayUrlLoader;
@@ -82,30 +191,48 @@ export class Bundler {
 
     // In order for the bundler to use a given analyzer, we'll have to fork it
     // so we can provide our own overlayUrlLoader which falls back to the
-    // analyzer's load method.
+    // analyzer's load method.  The contents it loads are transformed by the
+    // plugins, but not the contents given to analyzeContents.
+    this.plugins = opts.plugins || [];
     if (opts.analyzer) {
       const analyzer = opts.analyzer;
-      this._overlayUrlLoader = new InMemoryOverlayUrlLoader(analyzer);
+      this._overlayUrlLoader = new InMemoryOverlayUrlLoader(
+          new TransformingUrlLoader(analyzer, this.plugins));
       this.analyzer = analyzer._fork({urlLoader: this._overlayUrlLoader});
     } else {
       this._overlayUrlLoader =
-          new InMemoryOverlayUrlLoader(new FsUrlLoader(resolvePath('.')));
+          new InMemoryOverlayUrlLoader(new TransformingUrlLoader(
+              new FsUrlLoader(resolvePath('.')), this.plugins));
       this.analyzer = new Analyzer({urlLoader: this._overlayUrlLoader});
     }
 
     this.excludes = Array.isArray(opts.excludes) ? opts.excludes : [];
+    this.bundleExcludes =
+        Array.isArray(opts.bundleExcludes) ? opts.bundleExcludes : [];
     this.stripComments = Boolean(opts.stripComments);
     this.enableCssInlining =
         opts.inlineCss === undefined ? true : opts.inlineCss;
     this.enableScriptInlining =
         opts.inlineScripts === undefined ? true : opts.inlineScripts;
+    this.inlineAssetsMaxBytes = opts.inlineAssetsMaxBytes;
+    this.collectAssets = Boolean(opts.collectAssets);
+    this.hashAssetUrls = Boolean(opts.hashAssetUrls);
+    this.minify = opts.minify || {};
+    this.outputFormat = opts.outputFormat || 'es';
+    this.preloadModuleBundles = Boolean(opts.preloadModuleBundles);
+    this.prefetchLazyBundles = Boolean(opts.prefetchLazyBundles);
     this.rewriteUrlsInTemplates = Boolean(opts.rewriteUrlsInTemplates);
     this.sourcemaps = Boolean(opts.sourcemaps);
+    this.sri = Boolean(opts.sri);
+    this.csp = opts.csp;
+    this.treeshake = Boolean(opts.treeshake);
     this.strategy =
         opts.strategy || bundleManifestLib.generateSharedDepsMergeStrategy();
     this.urlMapper = opts.urlMapper ||
         bundleManifestLib.generateCountingSharedBundleUrlMapper(
             this.analyzer.resolveUrl('shared_bundle_')!);
+    this.contentUrlMapper = opts.contentUrlMapper;
+    this.budgets = opts.budgets;
   }
 
   /**
@@ -143,28 +270,72 @@ export class Bundler {
    * inlined according to the options for this Bundler.
    *
    * @param manifest - The manifest that describes the bundles to be produced.
+   * @param bundleUrls - If given, only the bundles with these URLs are
+   *     produced.
    */
-  async bundle(manifest: BundleManifest): Promise<BundleResult> {
+  async bundle(manifest: BundleManifest, bundleUrls?: Iterable<ResolvedUrl>):
+      Promise<BundleResult> {
+    const includedBundleUrls = bundleUrls && new Set(bundleUrls);
     const documents: DocumentCollection =
         new Map<ResolvedUrl, BundledDocument>();
     manifest = manifest.fork();
+    const warnings = [...manifest.warnings];
 
     // Ensure exports of modules sharing the URL of their bundle have priority
     // in name-collision scenarios.
     reserveBundleModuleExportNames(this.analyzer, manifest);
 
-    for (const [url, {type: bundleType}] of manifest.bundles) {
-      switch (bundleType) {
-        case 'html-fragment':
-          documents.set(url, await bundleHtmlFragment(this, manifest, url));
-          break;
-        case 'es6-module':
-          documents.set(url, await bundleEs6Module(this, manifest, url));
-          break;
+    // When tree-shaking, bundles only re-export what other bundles import.
+    const importedExportNames = this.treeshake ?
+        await getImportedModuleExportNames(this.analyzer, manifest) :
+        undefined;
+
+    // When the final bundle URLs or integrity hashes depend on bundle
+    // content, bundles have to be produced in dependency order, so that the
+    // content of every bundle refers to the final URLs and hashes of the
+    // bundles it depends on.  Bundles which depend on each other can't all
+    // know each other's, so they keep the URLs assigned in the manifest, and
+    // only refer to the integrity hashes of those produced before them.
+    const bundleUrlGroups = this.contentUrlMapper || this.sri ?
+        await getBundleUrlsInDependencyOrder(this.analyzer, manifest) :
+        [...manifest.bundles.keys()].map((url) => [url]);
+    for (const bundleUrls of bundleUrlGroups) {
+      for (const bundleUrl of bundleUrls) {
+        if (includedBundleUrls && !includedBundleUrls.has(bundleUrl)) {
+          continue;
+        }
+        const document = await this._bundleDocument(
+            manifest, bundleUrl, importedExportNames);
+        const bundle = manifest.bundles.get(bundleUrl)!;
+        warnings.push(
+            ...await this._getMissingImportWarnings(bundle),
+            ...bundle.warnings);
+        if (!document) {
+          continue;
+        }
+        if (this.sri) {
+          bundle.integrity = getIntegrity(document.content);
+        }
+        let url = bundleUrl;
+        if (this.contentUrlMapper && bundleUrls.length === 1) {
+          url = this.contentUrlMapper(bundleUrl, bundle, document.content);
+          if (url !== bundleUrl) {
+            manifest.renameBundle(bundleUrl, url);
+          }
+        }
+        documents.set(url, document);
+        for (const [scriptUrl, script] of document.externalScripts || []) {
+          documents.set(scriptUrl, script);
+        }
       }
     }
 
-    return {manifest, documents};
+    if (this.budgets) {
+      const budgetReport =
+          await checkBudgets(this.budgets, this.analyzer, manifest, documents);
+      return {manifest, documents, budgetReport, warnings};
+    }
+    return {manifest, documents, warnings};
   }
 
   /**
@@ -178,19 +349,154 @@ export class Bundler {
    *     See 'polymer-analyzer/src/bundle-manifest'.
    * @param mapper - A function that produces URLs for the generated bundles.
    *     See 'polymer-analyzer/src/bundle-manifest'.
+   * @param depsIndexCache - If given, the dependencies of entrypoints are
+   *     cached in it and reused by later calls.  See 'src/deps-index'.
    */
-  async generateManifest(entrypoints: ResolvedUrl[]): Promise<BundleManifest> {
-    const dependencyIndex =
-        await depsIndexLib.buildDepsIndex(entrypoints, this.analyzer);
+  async generateManifest(
+      entrypoints: ResolvedUrl[],
+      depsIndexCache?: depsIndexLib.DepsIndexCache): Promise<BundleManifest> {
+    const warnings: Warning[] = [];
+    const dependencyIndex = await depsIndexLib.buildDepsIndex(
+        entrypoints, this.analyzer, depsIndexCache, warnings, {
+          // Stylesheets and classic scripts are only bundled when they would
+          // be inlined, and are left alone otherwise.
+          stylesheets: this.enableCssInlining,
+          classicScripts: this.enableScriptInlining,
+          plugins: this.plugins,
+        });
     let bundles = bundleManifestLib.generateBundles(dependencyIndex);
     // Merge single-entrypoint sub-bundles into their containing documents so
     // that inlining code can know which module scripts can be inlined.
     if (this.enableScriptInlining) {
       bundleManifestLib.mergeSingleEntrypointSubBundles(bundles);
     }
+    bundleManifestLib.mergeLinkedBundlesIntoHtmlBundles(bundles);
     this._filterExcludesFromBundles(bundles);
-    bundles = this.strategy(bundles);
-    return new BundleManifest(bundles, this.urlMapper);
+    bundles = await this._splitLinkedBundles(this.strategy(bundles));
+    let manifest = new BundleManifest(bundles, this.urlMapper);
+    if (this.bundleExcludes.length > 0) {
+      // Bundle excludes match bundle URLs, so they can only be applied once
+      // the bundles are mapped, after which the manifest is indexed again.
+      const bundleUrlMap = manifest.bundles;
+      this._filterBundleExcludesFromBundles(bundleUrlMap);
+      manifest =
+          new BundleManifest([...bundleUrlMap.values()], () => bundleUrlMap);
+    }
+    manifest.warnings = warnings;
+    return transformManifest(this.plugins, manifest);
+  }
+
+  /**
+   * Returns true if the URL is excluded from inlining, either into every
+   * bundle or, when a bundle URL is given, by the bundle excludes matching it.
+   */
+  isExcluded(url: ResolvedUrl, bundleUrl?: ResolvedUrl): boolean {
+    const excludes = bundleUrl === undefined ?
+        this.excludes :
+        this.excludes.concat(...this._getBundleExcludes(bundleUrl));
+    return excludes.some(
+        (e) => url === e || url.startsWith(ensureTrailingSlash(e)));
+  }
+
+  /**
+   * Returns the URLs excluded from the bundle with the given URL by the
+   * bundle excludes whose patterns match it.
+   */
+  private _getBundleExcludes(bundleUrl: ResolvedUrl): ResolvedUrl[][] {
+    const relativeUrl = this.analyzer.urlResolver.relative(bundleUrl);
+    return this.bundleExcludes
+        .filter(({pattern}) => new Minimatch(pattern).match(relativeUrl))
+        .map(({excludes}) => excludes);
+  }
+
+  /**
+   * Returns a warning for each import of the bundle which could not be
+   * loaded, located at the imports of it in the bundle's files.
+   */
+  private async _getMissingImportWarnings(bundle: Bundle): Promise<Warning[]> {
+    if (bundle.missingImports.size === 0) {
+      return [];
+    }
+    const warnings: Warning[] = [];
+    const locatedImports = new Set<ResolvedUrl>();
+    const analysis = await this.analyzer.analyze([...bundle.files]);
+    for (const file of bundle.files) {
+      const result = analysis.getDocument(file);
+      if (!result.successful) {
+        continue;
+      }
+      for (const imprt of result.value.getFeatures(
+               {kind: 'import', imported: false, externalPackages: true})) {
+        if (!bundle.missingImports.has(imprt.url)) {
+          continue;
+        }
+        locatedImports.add(imprt.url);
+        warnings.push(this._getMissingImportWarning(
+            imprt.url,
+            imprt.sourceRange && imprt.sourceRange.file,
+            imprt.sourceRange));
+      }
+    }
+    for (const url of bundle.missingImports) {
+      if (!locatedImports.has(url)) {
+        warnings.push(this._getMissingImportWarning(url));
+      }
+    }
+    return warnings;
+  }
+
+  private _getMissingImportWarning(
+      url: ResolvedUrl,
+      importerUrl?: ResolvedUrl,
+      range?: Warning['range']): Warning {
+    return {
+      code: 'missing-import',
+      message: `Could not load ${this.analyzer.urlResolver.relative(url)}`,
+      severity: Severity.WARNING,
+      url: importerUrl,
+      range,
+    };
+  }
+
+  /**
+   * Produces the bundled document for the bundle with the given URL according
+   * to the bundle's type.
+   */
+  private async _bundleDocument(
+      manifest: BundleManifest,
+      url: ResolvedUrl,
+      importedExportNames?: Map<ResolvedUrl, Set<string>>):
+      Promise<BundledDocument|undefined> {
+    switch (manifest.bundles.get(url)!.type) {
+      case 'html-fragment':
+        return bundleHtmlFragment(this, manifest, url);
+      case 'es6-module':
+        return bundleEs6Module(this, manifest, url, importedExportNames);
+      case 'css':
+        return bundleCss(this, manifest, url);
+      case 'classic-script':
+        return bundleClassicScript(this, manifest, url);
+    }
+  }
+
+  /**
+   * Splits the classic script and CSS bundles into bundles which can each
+   * replace the tags referencing their files without changing the order the
+   * scripts are evaluated in or the stylesheets apply in.
+   */
+  private async _splitLinkedBundles(bundles: Bundle[]): Promise<Bundle[]> {
+    const splitBundles: Bundle[] = [];
+    for (const bundle of bundles) {
+      if (bundle.type === 'classic-script') {
+        splitBundles.push(
+            ...await splitClassicScriptBundle(this.analyzer, bundle));
+      } else if (bundle.type === 'css') {
+        splitBundles.push(...await splitCssBundle(this.analyzer, bundle));
+      } else {
+        splitBundles.push(bundle);
+      }
+    }
+    return splitBundles;
   }
 
   /**
@@ -225,4 +531,18 @@ export class Bundler {
       ++b;
     }
   }
+
+  /**
+   * Given a map of bundle URLs to bundles, remove the files excluded from each
+   * bundle by the bundle excludes matching its URL.
+   */
+  private _filterBundleExcludesFromBundles(bundles: Map<ResolvedUrl, Bundle>) {
+    for (const [url, bundle] of bundles) {
+      for (const file of bundle.files) {
+        if (this.isExcluded(file, url)) {
+          bundle.files.delete(file);
+        }
+      }
+    }
+  }
 }
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+import * as babel from 'babel-types';
+import * as dom5 from 'dom5';
+import {Analyzer, FileRelativeUrl, ResolvedUrl} from 'polymer-analyzer';
+
+import {getEagerHtmlDocuments} from './analyzer-utils';
+import {Bundle, BundleManifest, splitLinkedBundleIntoRuns} from './bundle-manifest';
+import {Bundler} from './bundler';
+import {BundledDocument} from './document-collection';
+import * as matchers from './matchers';
+import {minifyJs} from './minify';
+import {appendInlineSourcemapComment, concatenateScripts, scriptSeparator} from './source-map';
+
+/**
+ * Produces a classic script BundledDocument, which concatenates the scripts
+ * of the bundle in the order of its files, which is the order the scripts are
+ * evaluated in by its entrypoints.
+ */
+export async function bundle(
+    bundler: Bundler, manifest: BundleManifest, url: ResolvedUrl):
+    Promise<BundledDocument> {
+  const bundle = manifest.bundles.get(url);
+  if (!bundle) {
+    throw new Error(`No bundle found in manifest for url ${url}.`);
+  }
+  const scripts: Array<{url: ResolvedUrl, content: string}> = [];
+  for (const file of bundle.files) {
+    try {
+      scripts.push({url: file, content: await bundler.analyzer.load(file)});
+    } catch (err) {
+      bundle.missingImports.add(file);
+    }
+  }
+  let content;
+  if (bundler.sourcemaps) {
+    const {code, map} = await concatenateScripts(bundler.analyzer, scripts);
+    content = appendInlineSourcemapComment(code, map);
+  } else {
+    content = scripts.map((script) => script.content).join(scriptSeparator);
+  }
+  if (bundler.minify.js) {
+    content = await minifyJs(bundler, url, content);
+  }
+  const document = await bundler.analyzeContents(url, content);
+  return {
+    ast: document.parsedDocument.ast,
+    content: document.parsedDocument.contents,
+    files: [...bundle.files]
+  };
+}
+
+/**
+ * Splits the classic script bundle into bundles of scripts which are evaluated
+ * one after the other, with no inline script or HTML import in between, in
+ * the HTML documents loaded by its entrypoints, and which are either all
+ * strict mode or all sloppy mode scripts, so that concatenating them does not
+ * change how they are evaluated.
+ */
+export async function splitBundle(
+    analyzer: Analyzer, bundle: Bundle): Promise<Bundle[]> {
+  const analysis =
+      await analyzer.analyze([...bundle.entrypoints, ...bundle.files]);
+  const sequences =
+      getEagerHtmlDocuments(analysis, bundle.entrypoints)
+          .map(
+              (document) =>
+                  dom5.queryAll(
+                          document.parsedDocument.ast,
+                          dom5.predicates.OR(
+                              matchers.nonModuleScript, matchers.htmlImport))
+                      .map((node) => {
+                        const src = dom5.getAttribute(node, 'src');
+                        return matchers.externalNonModuleScript(node) && src ?
+                            analyzer.urlResolver.resolve(
+                                document.parsedDocument.baseUrl,
+                                src as FileRelativeUrl) :
+                            undefined;
+                      }));
+  return splitLinkedBundleIntoRuns(bundle, sequences, (url) => {
+    const result = analysis.getDocument(url);
+    if (!result.successful || result.value.parsedDocument.type !== 'js') {
+      return '';
+    }
+    const program = (result.value.parsedDocument.ast as babel.File).program;
+    return (program.directives ||
+            []).some((directive) => directive.value.value === 'use strict') ?
+        'strict' :
+        'sloppy';
+  });
+}
@@ -0,0 +1,308 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+import * as fs from 'fs';
+import * as pathLib from 'path';
+import {ResolvedUrl} from 'polymer-analyzer';
+
+import {Budgets} from './budgets';
+import {BundleStrategy, composeStrategies, generateEagerMergeStrategy, generateNoBackLinkStrategy, generateSharedDepsMergeStrategy, generateShellMergeStrategy} from './bundle-manifest';
+import {resolvePath} from './url-utils';
+
+/**
+ * The name of the config file the CLI reads from the current working folder
+ * when no `--config` path is given.
+ */
+export const defaultConfigFile = 'polymer-bundler.config.json';
+
+/**
+ * A step of a bundle strategy composed from the config file or the CLI
+ * options.  Steps are applied in order, each to the bundles produced by the
+ * previous one.
+ */
+export type StrategyStep =
+    // Merges the dependencies shared by at least `minEntrypoints` entrypoints
+    // into shared bundles.  See `generateSharedDepsMergeStrategy`.
+    {type: 'shared', minEntrypoints?: number} |
+    // Merges the dependencies shared by at least `minEntrypoints` entrypoints
+    // into the shell at `url`.  See `generateShellMergeStrategy`.
+    {type: 'shell', url: string, minEntrypoints?: number} |
+    // Merges the bundles eagerly loaded by the entrypoint at `url` into its
+    // bundle.  See `generateEagerMergeStrategy`.
+    {type: 'eager-merge', url: string} |
+    // Keeps bundles from linking to the files at `urls`.  See
+    // `generateNoBackLinkStrategy`.
+    {type: 'no-back-link', urls: string[]};
+
+export interface RedirectConfig {
+  // URL prefix, possibly including a protocol, hostname and/or path.
+  prefix: string;
+  // The folder on the local filesystem URLs with the prefix are routed to.
+  path: string;
+}
+
+export interface BundleExcludesConfig {
+  // Glob of the package relative URLs of the bundles to exclude from.
+  pattern: string;
+  // Package relative URLs of files and/or folders to exclude.
+  excludes: string[];
+}
+
+/**
+ * The contents of a config file.  URLs are package relative and paths are
+ * relative to the folder of the config file.
+ */
+export interface BundlerConfig {
+  entrypoints?: string[];
+  root?: string;
+  outDir?: string;
+  outFile?: string;
+  manifestIn?: string;
+  manifestOut?: string;
+  pushManifestOut?: string;
+  cspHashesOut?: string;
+  versionedManifest?: boolean;
+  excludes?: string[];
+  bundleExcludes?: BundleExcludesConfig[];
+  inlineCss?: boolean;
+  inlineScripts?: boolean;
+  inlineAssetsMaxBytes?: number;
+  copyAssets?: boolean;
+  hashAssetUrls?: boolean;
+  rewriteUrlsInTemplates?: boolean;
+  sourcemaps?: boolean;
+  stripComments?: boolean;
+  minifyHtml?: boolean;
+  minifyCss?: boolean;
+  minifyJs?: boolean;
+  minifyTemplates?: boolean;
+  treeshake?: boolean;
+  outputFormat?: 'es'|'system'|'amd'|'iife';
+  preloadModuleBundles?: boolean;
+  prefetchLazyBundles?: boolean;
+  sri?: boolean;
+  csp?: 'external'|'hashes';
+  moduleResolution?: 'node'|'none';
+  redirects?: RedirectConfig[];
+  hashSharedBundleUrls?: 'files'|'content';
+  strategy?: StrategyStep[];
+  budgets?: Budgets;
+  failOnWarnings?: boolean;
+}
+
+type Validator = (value: any, path: string, errors: string[]) => void;
+
+const isObject = (value: any) =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateBoolean: Validator = (value, path, errors) => {
+  if (typeof value !== 'boolean') {
+    errors.push(`${path} must be a boolean.`);
+  }
+};
+
+const validateString: Validator = (value, path, errors) => {
+  if (typeof value !== 'string') {
+    errors.push(`${path} must be a string.`);
+  }
+};
+
+const validateCount: Validator = (value, path, errors) => {
+  if (typeof value !== 'number' || !(value >= 0) || value % 1 !== 0) {
+    errors.push(`${path} must be a whole number.`);
+  }
+};
+
+function validateOneOf(values: string[]): Validator {
+  return (value, path, errors) => {
+    if (values.indexOf(value) === -1) {
+      errors.push(
+          `${path} must be one of ${values.map((v) => `"${v}"`).join(', ')}.`);
+    }
+  };
+}
+
+function validateArrayOf(validateItem: Validator): Validator {
+  return (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      errors.push(`${path} must be an array.`);
+      return;
+    }
+    value.forEach((item, i) => validateItem(item, `${path}[${i}]`, errors));
+  };
+}
+
+function validateObject(
+    fields: {[key: string]: Validator}, required: string[] = []): Validator {
+  return (value, path, errors) => {
+    if (!isObject(value)) {
+      errors.push(`${path} must be an object.`);
+      return;
+    }
+    for (const key of Object.keys(value)) {
+      if (!fields.hasOwnProperty(key)) {
+        errors.push(`${path}.${key} is not a known option.`);
+        continue;
+      }
+      fields[key](value[key], `${path}.${key}`, errors);
+    }
+    for (const key of required) {
+      if (value[key] === undefined) {
+        errors.push(`${path}.${key} is required.`);
+      }
+    }
+  };
+}
+
+const validateSizeBudget = validateObject(
+    {
+      pattern: validateString,
+      maxBytes: validateCount,
+      maxGzipBytes: validateCount
+    },
+    ['pattern']);
+
+const strategyStepValidators: {[type: string]: Validator} = {
+  'shared':
+      validateObject({type: validateString, minEntrypoints: validateCount}),
+  'shell': validateObject(
+      {
+        type: validateString,
+        url: validateString,
+        minEntrypoints: validateCount
+      },
+      ['url']),
+  'eager-merge':
+      validateObject({type: validateString, url: validateString}, ['url']),
+  'no-back-link': validateObject(
+      {type: validateString, urls: validateArrayOf(validateString)}, ['urls']),
+};
+
+const validateStrategyStep: Validator = (value, path, errors) => {
+  if (isObject(value) && strategyStepValidators.hasOwnProperty(value.type)) {
+    strategyStepValidators[value.type](value, path, errors);
+  } else {
+    validateOneOf(Object.keys(strategyStepValidators))(
+        isObject(value) ? value.type : undefined, `${path}.type`, errors);
+  }
+};
+
+const validateBundlerConfig = validateObject({
+  entrypoints: validateArrayOf(validateString),
+  root: validateString,
+  outDir: validateString,
+  outFile: validateString,
+  manifestIn: validateString,
+  manifestOut: validateString,
+  pushManifestOut: validateString,
+  cspHashesOut: validateString,
+  versionedManifest: validateBoolean,
+  excludes: validateArrayOf(validateString),
+  bundleExcludes: validateArrayOf(validateObject(
+      {pattern: validateString, excludes: validateArrayOf(validateString)},
+      ['pattern', 'excludes'])),
+  inlineCss: validateBoolean,
+  inlineScripts: validateBoolean,
+  inlineAssetsMaxBytes: validateCount,
+  copyAssets: validateBoolean,
+  hashAssetUrls: validateBoolean,
+  rewriteUrlsInTemplates: validateBoolean,
+  sourcemaps: validateBoolean,
+  stripComments: validateBoolean,
+  minifyHtml: validateBoolean,
+  minifyCss: validateBoolean,
+  minifyJs: validateBoolean,
+  minifyTemplates: validateBoolean,
+  treeshake: validateBoolean,
+  outputFormat: validateOneOf(['es', 'system', 'amd', 'iife']),
+  preloadModuleBundles: validateBoolean,
+  prefetchLazyBundles: validateBoolean,
+  sri: validateBoolean,
+  csp: validateOneOf(['external', 'hashes']),
+  moduleResolution: validateOneOf(['node', 'none']),
+  redirects: validateArrayOf(validateObject(
+      {prefix: validateString, path: validateString}, ['prefix', 'path'])),
+  hashSharedBundleUrls: validateOneOf(['files', 'content']),
+  strategy: validateArrayOf(validateStrategyStep),
+  budgets: validateObject({
+    bundles: validateArrayOf(validateSizeBudget),
+    entrypoints: validateArrayOf(validateSizeBudget),
+  }),
+  failOnWarnings: validateBoolean,
+});
+
+/**
+ * Returns a message for each problem with the config, like unknown keys or
+ * values of the wrong type, or an empty array if it is valid.
+ */
+export function validateConfig(config: any): string[] {
+  const errors: string[] = [];
+  validateBundlerConfig(config, 'config', errors);
+  return errors;
+}
+
+/**
+ * Reads and validates the config file at the given path, resolving the paths
+ * in it relative to the folder of the file.
+ */
+export function loadConfig(path: string): BundlerConfig {
+  let config: BundlerConfig;
+  try {
+    config = JSON.parse(fs.readFileSync(path).toString());
+  } catch (err) {
+    throw new Error(`Unable to read config file ${path}: ${err.message}`);
+  }
+  const errors = validateConfig(config);
+  if (errors.length > 0) {
+    throw new Error(
+        `Invalid config file ${path}:\n` +
+        errors.map((e) => `  ${e}`).join('\n'));
+  }
+  const folder = pathLib.dirname(resolvePath(path));
+  const resolve = (p: string | undefined) =>
+      p === undefined ? undefined : resolvePath(folder, p);
+  return Object.assign({}, config, {
+    root: resolve(config.root),
+    outDir: resolve(config.outDir),
+    outFile: resolve(config.outFile),
+    manifestIn: resolve(config.manifestIn),
+    manifestOut: resolve(config.manifestOut),
+    pushManifestOut: resolve(config.pushManifestOut),
+    cspHashesOut: resolve(config.cspHashesOut),
+    redirects: config.redirects &&
+        config.redirects.map(
+            ({prefix, path}) => ({prefix, path: resolvePath(folder, path)})),
+  });
+}
+
+/**
+ * Composes the bundle strategy described by the steps, resolving their URLs
+ * with the given function.
+ */
+export function generateStrategy(
+    steps: StrategyStep[],
+    resolveUrl: (url: string) => ResolvedUrl): BundleStrategy {
+  return composeStrategies(steps.map((step) => {
+    switch (step.type) {
+      case 'shared':
+        return generateSharedDepsMergeStrategy(step.minEntrypoints);
+      case 'shell':
+        return generateShellMergeStrategy(
+            resolveUrl(step.url), step.minEntrypoints);
+      case 'eager-merge':
+        return generateEagerMergeStrategy(resolveUrl(step.url));
+      case 'no-back-link':
+        return generateNoBackLinkStrategy(step.urls.map(resolveUrl));
+    }
+  }));
+}
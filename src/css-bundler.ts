@@ -0,0 +1,201 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+import * as dom5 from 'dom5';
+import {ASTNode} from 'parse5';
+import {Analyzer, FileRelativeUrl, ResolvedUrl} from 'polymer-analyzer';
+
+import {getEagerHtmlDocuments} from './analyzer-utils';
+import {rewriteCssAssetUrls} from './assets';
+import {AssignedBundle, Bundle, BundleManifest, splitLinkedBundleIntoRuns} from './bundle-manifest';
+import {Bundler} from './bundler';
+import constants from './constants';
+import {addCssImportConditions, CssImport, getCssImportRules, rewriteCssTextBaseUrl, serializeCssImport, wrapCssInImportConditions} from './css-utils';
+import {BundledDocument} from './document-collection';
+import * as matchers from './matchers';
+import {minifyCss} from './minify';
+import {rewriteHrefBaseUrl} from './url-utils';
+
+/**
+ * Produces a CSS BundledDocument, which concatenates the stylesheets of the
+ * bundle in order, with their `@import` rules inlined and URLs rebased to the
+ * bundle URL.
+ */
+export async function bundle(
+    bundler: Bundler, manifest: BundleManifest, url: ResolvedUrl):
+    Promise<BundledDocument> {
+  const bundle = manifest.bundles.get(url);
+  if (!bundle) {
+    throw new Error(`No bundle found in manifest for url ${url}.`);
+  }
+  const assignedBundle = {url, bundle};
+  const imports: CssImport[] = [];
+  const stylesheets: string[] = [];
+  for (const file of bundle.files) {
+    let cssText: string;
+    try {
+      cssText = await bundler.analyzer.load(file);
+    } catch (err) {
+      bundle.missingImports.add(file);
+      continue;
+    }
+    const inlined = await inlineCssImportRules(
+        bundler, assignedBundle, cssText, file, url, [file]);
+    imports.push(...inlined.imports);
+    stylesheets.push(inlined.css);
+  }
+  // Imports which could not be inlined must precede all other rules.
+  let content = [...imports.map(serializeCssImport), ...stylesheets].join('\n');
+  if (bundler.inlineAssetsMaxBytes !== undefined || bundler.collectAssets) {
+    content = await rewriteCssAssetUrls(bundler, assignedBundle, content, url);
+  }
+  if (bundler.minify.css) {
+    content = minifyCss(content);
+  }
+  const document = await bundler.analyzeContents(url, content);
+  return {
+    ast: document.parsedDocument.ast,
+    content: document.parsedDocument.contents,
+    files: [...bundle.files]
+  };
+}
+
+/**
+ * Splits the CSS bundle into bundles of stylesheets which are linked one after
+ * the other, with no `<style>`, HTML import or other stylesheet in between, in
+ * the HTML documents and templates loaded by its entrypoints, so that linking
+ * the bundle in place of the first of them does not change the order of the
+ * rules in the cascade.
+ */
+export async function splitBundle(
+    analyzer: Analyzer, bundle: Bundle): Promise<Bundle[]> {
+  const analysis = await analyzer.analyze([...bundle.entrypoints]);
+  const sequences: Array<Array<ResolvedUrl|undefined>> = [];
+  for (const document of getEagerHtmlDocuments(analysis, bundle.entrypoints)) {
+    const stylesheetUrls = new Map<ASTNode, ResolvedUrl>();
+    for (const style of document.getFeatures(
+             {kind: 'html-style', imported: false, externalPackages: true})) {
+      if (style.document !== undefined) {
+        stylesheetUrls.set(style.astNode, style.document.url);
+      }
+    }
+    // Template contents are fragments of their own, so the elements in them
+    // are sequences apart from the elements of the document.
+    const rootSequences = new Map<ASTNode, Array<ResolvedUrl|undefined>>();
+    const nodes = dom5.queryAll(
+        document.parsedDocument.ast,
+        dom5.predicates.OR(
+            matchers.externalStyle,
+            matchers.styleMatcher,
+            matchers.stylesheetImport,
+            matchers.htmlImport),
+        undefined,
+        dom5.childNodesIncludeTemplate);
+    for (const node of nodes) {
+      let root = node;
+      while (root.parentNode) {
+        root = root.parentNode;
+      }
+      if (!rootSequences.has(root)) {
+        rootSequences.set(root, []);
+      }
+      rootSequences.get(root)!.push(stylesheetUrls.get(node));
+    }
+    sequences.push(...rootSequences.values());
+  }
+  return splitLinkedBundleIntoRuns(bundle, sequences);
+}
+
+/**
+ * Given a string of CSS from the stylesheet at `cssUrl`, return a version
+ * where the stylesheets imported by `@import` rules are inlined recursively,
+ * wrapped in `@supports` and `@media` blocks for the conditions of the
+ * rules, and all URLs are rebased to the new base URL.  Imports which are
+ * excluded, missing or external remain `@import` rules, moved to the start
+ * of the CSS since they are ignored after other rules.  Imports which form a
+ * cycle are dropped, as browsers ignore them.
+ */
+export async function inlineCssImports(
+    bundler: Bundler,
+    assignedBundle: AssignedBundle,
+    cssText: string,
+    cssUrl: ResolvedUrl,
+    newBaseUrl: ResolvedUrl): Promise<string> {
+  const {css, imports} = await inlineCssImportRules(
+      bundler, assignedBundle, cssText, cssUrl, newBaseUrl, [cssUrl]);
+  if (imports.length === 0) {
+    return css;
+  }
+  return [...imports.map(serializeCssImport), css].join('\n');
+}
+
+/**
+ * Inlines the `@import` rules of the CSS, returning the CSS along with the
+ * imports which could not be inlined, with URLs rebased to the new base URL.
+ * The `importers` are the URLs of the stylesheets importing the CSS, which
+ * are not inlined again.
+ */
+async function inlineCssImportRules(
+    bundler: Bundler,
+    assignedBundle: AssignedBundle,
+    cssText: string,
+    cssUrl: ResolvedUrl,
+    newBaseUrl: ResolvedUrl,
+    importers: ResolvedUrl[]): Promise<{
+  css: string, imports: CssImport[]
+}> {
+  const imports: CssImport[] = [];
+  let css = '';
+  let lastIndex = 0;
+  for (const rule of getCssImportRules(cssText)) {
+    css += rewriteCssTextBaseUrl(
+        cssText.slice(lastIndex, rule.index), cssUrl, newBaseUrl);
+    lastIndex = rule.index + rule.text.length;
+    const {supports, media} = rule;
+    const rebasedImport = {
+      href: rewriteHrefBaseUrl(rule.href, cssUrl, newBaseUrl),
+      supports,
+      media,
+    };
+    const importUrl = bundler.analyzer.urlResolver.resolve(
+        cssUrl, rule.href as FileRelativeUrl);
+    if (importUrl === undefined || constants.EXTERNAL_URL.test(rule.href) ||
+        !bundler.analyzer.canLoad(importUrl) ||
+        bundler.isExcluded(importUrl, assignedBundle.url)) {
+      imports.push(rebasedImport);
+      continue;
+    }
+    if (importers.indexOf(importUrl) !== -1) {
+      continue;
+    }
+    let importedCssText: string;
+    try {
+      importedCssText = await bundler.analyzer.load(importUrl);
+    } catch (err) {
+      assignedBundle.bundle.missingImports.add(importUrl);
+      imports.push(rebasedImport);
+      continue;
+    }
+    const inlined = await inlineCssImportRules(
+        bundler, assignedBundle, importedCssText, importUrl, newBaseUrl, [
+          ...importers,
+          importUrl
+        ]);
+    css += wrapCssInImportConditions(inlined.css, rule);
+    imports.push(
+        ...inlined.imports.map((i) => addCssImportConditions(i, rule)));
+    assignedBundle.bundle.inlinedStyles.add(importUrl);
+  }
+  css += rewriteCssTextBaseUrl(cssText.slice(lastIndex), cssUrl, newBaseUrl);
+  return {css, imports};
+}
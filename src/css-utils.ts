@@ -0,0 +1,157 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+import {ResolvedUrl} from 'polymer-analyzer';
+import {nodeType, Parser} from 'shady-css-parser';
+
+import constants from './constants';
+import {rewriteHrefBaseUrl} from './url-utils';
+
+/**
+ * An `@import` rule of a stylesheet, e.g.
+ * `@import url("a.css") supports(display: grid) screen;`
+ */
+export interface CssImport {
+  href: string;
+  // The supports condition, in the form used by `@supports` rules, e.g.
+  // `(display: grid)`.
+  supports?: string;
+  // The media query list, e.g. `screen, print`.
+  media?: string;
+}
+
+export interface CssImportRule extends CssImport {
+  // The offset of the rule in the CSS text.
+  index: number;
+  // The text of the rule, up to and including its semicolon.
+  text: string;
+}
+
+const cssImportPattern =
+    /^@import\s+(?:url\(\s*(['"]?)([^'")]*)\1\s*\)|(['"])([^'"]*)\3)([^;]*);$/;
+
+/**
+ * Returns the `@import` rules found in the CSS text, in order.  The CSS is
+ * parsed, so that `@import`s in comments and strings are not mistaken for
+ * rules.
+ */
+export function getCssImportRules(cssText: string): CssImportRule[] {
+  const rules: CssImportRule[] = [];
+  for (const atRule of new Parser().parse(cssText).rules) {
+    if (atRule.type !== nodeType.atRule || atRule.name !== 'import') {
+      continue;
+    }
+    const {start, end} = atRule.range;
+    const match = cssImportPattern.exec(cssText.slice(start, end));
+    if (!match) {
+      continue;
+    }
+    const href = match[2] === undefined ? match[4] : match[2];
+    const rule: CssImportRule = {index: start, text: match[0], href};
+    let conditions = match[5].trim();
+    const supportsMatch = /^supports\s*\(/.exec(conditions);
+    if (supportsMatch) {
+      const end = findClosingParen(conditions, supportsMatch[0].length - 1);
+      const supports = conditions.slice(supportsMatch[0].length, end).trim();
+      // A declaration, like `display: grid`, must be in parentheses in a
+      // supports condition.
+      rule.supports = /^[\w-]+\s*:/.test(supports) ? `(${supports})` : supports;
+      conditions = conditions.slice(end + 1).trim();
+    }
+    if (conditions) {
+      rule.media = conditions;
+    }
+    rules.push(rule);
+  }
+  return rules;
+}
+
+/**
+ * Returns the `@import` rule for the import.
+ */
+export function serializeCssImport({href, supports, media}: CssImport): string {
+  return `@import url("${href}")` + (supports ? ` supports(${supports})` : '') +
+      (media ? ` ${media}` : '') + ';';
+}
+
+/**
+ * Returns the import with the conditions of the outer import added, as for a
+ * stylesheet imported by the stylesheet imported by the outer import.  Media
+ * queries are combined with `and`, which can't express every combination,
+ * e.g. of queries using `not`.
+ */
+export function addCssImportConditions(
+    cssImport: CssImport, outer: CssImport): CssImport {
+  let supports = cssImport.supports || outer.supports;
+  if (cssImport.supports && outer.supports) {
+    supports = `(${outer.supports}) and (${cssImport.supports})`;
+  }
+  let media = cssImport.media || outer.media;
+  if (cssImport.media && outer.media) {
+    const splitMedia = (mediaList: string) =>
+        mediaList.split(',').map((query) => query.trim());
+    const queries: string[] = [];
+    for (const outerQuery of splitMedia(outer.media)) {
+      for (const query of splitMedia(cssImport.media)) {
+        queries.push(`${outerQuery} and ${query}`);
+      }
+    }
+    media = queries.join(', ');
+  }
+  return {href: cssImport.href, supports, media};
+}
+
+/**
+ * Returns the CSS wrapped in `@supports` and `@media` blocks for the
+ * conditions of the import, if any.
+ */
+export function wrapCssInImportConditions(
+    cssText: string, {supports, media}: CssImport): string {
+  if (media) {
+    cssText = `@media ${media} {\n${cssText}\n}`;
+  }
+  if (supports) {
+    cssText = `@supports ${supports} {\n${cssText}\n}`;
+  }
+  return cssText;
+}
+
+/**
+ * Given a string of CSS, return a version where all occurrences of URLs,
+ * have been rewritten based on the relationship of the old base URL to the
+ * new base URL.
+ */
+export function rewriteCssTextBaseUrl(
+    cssText: string, oldBaseUrl: ResolvedUrl, newBaseUrl: ResolvedUrl): string {
+  return cssText.replace(constants.URL, (match) => {
+    let path = match.replace(/["']/g, '').slice(4, -1);
+    path = rewriteHrefBaseUrl(path, oldBaseUrl, newBaseUrl);
+    return 'url("' + path + '")';
+  });
+}
+
+/**
+ * Returns the index of the parenthesis closing the one at `start`, or the
+ * length of the text if it is not closed.
+ */
+function findClosingParen(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; ++i) {
+    if (text[i] === '(') {
+      ++depth;
+    } else if (text[i] === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return text.length;
+}
@@ -11,24 +11,61 @@
  * subject to an additional IP rights grant found at
  * http://polymer.github.io/PATENTS.txt
  */
-import {Analyzer, Document, Import, ResolvedUrl} from 'polymer-analyzer';
+import {Analyzer, Document, FileRelativeUrl, Import, ResolvedUrl} from 'polymer-analyzer';
 import {JavaScriptDocument} from 'polymer-analyzer/lib/javascript/javascript-document';
 
 import {getAnalysisDocument} from './analyzer-utils';
+import {getModuleWorkerScriptUrlLiterals} from './es6-module-utils';
+import {BundlerPlugin, resolveImport} from './plugins';
+import {Severity, Warning} from './warnings';
 
 // An index of entrypoint -> dependencies
 export type DepsIndex = Map<ResolvedUrl, Set<ResolvedUrl>>;
 
+// A cache of entrypoint -> dependencies found for the entrypoint's document.
+export type DepsIndexCache = Map<ResolvedUrl, DepsIndexCacheEntry>;
+
+export interface DepsIndexOptions {
+  // When false, stylesheets linked with `<link rel="stylesheet">` are not
+  // dependencies, so they are left out of bundles.  Defaults to true.
+  stylesheets?: boolean;
+
+  // When false, classic scripts are not dependencies, so they are left out of
+  // bundles.  Defaults to true.
+  classicScripts?: boolean;
+
+  // Plugins whose `resolveId` hooks resolve the imports of ES6 modules before
+  // the analyzer does, as when the modules are rolled up.
+  plugins?: BundlerPlugin[];
+}
+
+export type DepsIndexCacheEntry = {
+  // The URL of the entrypoint's document.
+  url: ResolvedUrl,
+  isInline: boolean,
+  dependencies: DependencyMapEntry,
+};
+
 /**
  * Analyzes all entrypoints and determines each of their transitive
  * dependencies.
  * @param entrypoints Urls of entrypoints to analyze.
  * @param analyzer
+ * @param cache If given, dependencies are read from the cache for the
+ *     entrypoints it has entries for, and are added to it for the rest.  Use
+ *     `invalidateDepsIndexCache` to remove entries affected by file changes.
+ * @param warnings Warnings for entrypoints which could not be loaded are
+ *     added to it.
+ * @param options Which kinds of documents are dependencies.
  * @return a dependency index of every entrypoint, including entrypoints that
  *     were discovered as lazy entrypoints in the graph.
  */
 export async function buildDepsIndex(
-    entrypoints: ResolvedUrl[], analyzer: Analyzer): Promise<DepsIndex> {
+    entrypoints: ResolvedUrl[],
+    analyzer: Analyzer,
+    cache: DepsIndexCache = new Map(),
+    warnings: Warning[] = [],
+    options: DepsIndexOptions = {}): Promise<DepsIndex> {
   const depsIndex = new Map<ResolvedUrl, Set<ResolvedUrl>>();
   const analysis = await analyzer.analyze(entrypoints);
   const allEntrypoints = new Set<ResolvedUrl>(entrypoints);
@@ -37,18 +74,45 @@ export async function buildDepsIndex(
   // Note: the following iteration takes place over a Set which may be added
   // to from within the loop.
   for (const entrypoint of allEntrypoints) {
-    let document;
-    try {
-      document = inlineDocuments.has(entrypoint) ?
-          inlineDocuments.get(entrypoint)! :
-          getAnalysisDocument(analysis, entrypoint);
-    } catch (e) {
-      console.warn(e.message);
+    let cacheEntry = cache.get(entrypoint);
+    if (!cacheEntry) {
+      let document;
+      // Worker scripts are found in the code of other documents, without
+      // being imported, so they have not been analyzed yet.
+      let documentAnalysis = analysis;
+      if (!inlineDocuments.has(entrypoint) &&
+          !analysis.getDocument(entrypoint).successful) {
+        documentAnalysis = await analyzer.analyze([entrypoint]);
+      }
+      try {
+        document = inlineDocuments.has(entrypoint) ?
+            inlineDocuments.get(entrypoint)! :
+            getAnalysisDocument(documentAnalysis, entrypoint);
+      } catch (e) {
+        // Parse errors have the location of the error in the document.
+        const result = documentAnalysis.getDocument(entrypoint);
+        const error = result.successful ? undefined : result.error;
+        warnings.push({
+          code: 'could-not-load',
+          message: e.message,
+          severity: Severity.ERROR,
+          url: entrypoint,
+          range: error && error.sourceRange,
+        });
+      }
+      if (document) {
+        cacheEntry = {
+          url: document.url,
+          isInline: document.isInline,
+          dependencies: await getDependencies(analyzer, document, options),
+        };
+        cache.set(entrypoint, cacheEntry);
+      }
     }
-    if (document) {
-      const deps = getDependencies(analyzer, document);
+    if (cacheEntry) {
+      const deps = cacheEntry.dependencies;
       depsIndex.set(entrypoint, new Set([
-                      ...(document.isInline ? [] : [document.url]),
+                      ...(cacheEntry.isInline ? [] : [cacheEntry.url]),
                       ...deps.eagerDeps
                     ]));
 
@@ -63,7 +127,7 @@ export async function buildDepsIndex(
       // document on a subsequent iteration of the outer loop over all
       // entrypoints.
       for (const [id, imported] of deps.moduleScriptImports) {
-        const subBundleUrl = getSubBundleUrl(document.url, id);
+        const subBundleUrl = getSubBundleUrl(cacheEntry.url, id);
         allEntrypoints.add(subBundleUrl);
         inlineDocuments.set(subBundleUrl, imported);
       }
@@ -73,6 +137,37 @@ export async function buildDepsIndex(
   return depsIndex;
 }
 
+/**
+ * Removes the entries of the cache which are affected by changes to the given
+ * URLs, i.e. the entries for the changed documents, for documents depending
+ * on them and for module scripts contained in them.  Returns the entrypoints
+ * of the removed entries.
+ */
+export function invalidateDepsIndexCache(
+    cache: DepsIndexCache, changedUrls: Iterable<ResolvedUrl>): ResolvedUrl[] {
+  const changed = new Set(changedUrls);
+  const invalidated = new Set<ResolvedUrl>();
+  for (const [entrypoint, {url, dependencies}] of cache) {
+    if (changed.has(url) || changed.has(getSuperBundleUrl(entrypoint)) ||
+        [...dependencies.deps].some((url) => changed.has(url))) {
+      invalidated.add(entrypoint);
+      // The documents of module scripts are found through the document which
+      // contains them, so that entry has to be rebuilt too.
+      invalidated.add(getSuperBundleUrl(entrypoint));
+    }
+  }
+  for (const entrypoint of [...cache.keys()]) {
+    if (invalidated.has(getSuperBundleUrl(entrypoint))) {
+      invalidated.add(entrypoint);
+    }
+  }
+  const removed = [...invalidated].filter((url) => cache.has(url));
+  for (const entrypoint of removed) {
+    cache.delete(entrypoint);
+  }
+  return removed;
+}
+
 /**
  * Constructs a ResolvedUrl to identify a sub bundle, which is a concatenation
  * of the super bundle or containing file's URL and an id for the sub-bundle.
@@ -97,13 +192,14 @@ export function getSuperBundleUrl(subBundleUrl: string): ResolvedUrl {
   return subBundleUrl.split('>').shift()! as ResolvedUrl;
 }
 
-type DependencyMapEntry = {
+export type DependencyMapEntry = {
   // All dependencies of the document
   deps: Set<ResolvedUrl>,
   // Eagerly loaded dependencies of the document
   eagerDeps: Set<ResolvedUrl>,
   // All imports defined with `<link rel="lazy-import">` or with dynamic ES
-  // module import syntax like `import().then()`
+  // module import syntax like `import().then()`, and the scripts of module
+  // workers and service workers
   lazyImports: Set<ResolvedUrl>,
   // All imports defined with `<script type="module" src="...">` or as import
   // statements within a `<script type="module">...</script>`
@@ -120,42 +216,116 @@ const getFeaturesOptions = {
   excludeBackreferences: true,
 };
 
+/**
+ * Compares imports by the positions of their tags in the document.
+ */
+function compareSourcePositions(a: Import, b: Import): number {
+  if (!a.sourceRange || !b.sourceRange) {
+    return 0;
+  }
+  return a.sourceRange.start.line - b.sourceRange.start.line ||
+      a.sourceRange.start.column - b.sourceRange.start.column;
+}
+
+// The document an import loads, as found by the analyzer or by plugins.
+type ImportedDocument = {
+  document: Document|undefined,
+  lazy: boolean,
+};
+
 /**
  * For a given document, return a set of transitive dependencies, including
  * all eagerly-loaded dependencies and lazy html imports encountered.
  */
-function getDependencies(
-    analyzer: Analyzer, document: Document): DependencyMapEntry {
+async function getDependencies(
+    analyzer: Analyzer,
+    document: Document,
+    options: DepsIndexOptions): Promise<DependencyMapEntry> {
+  const includeStylesheets = options.stylesheets !== false;
+  const includeClassicScripts = options.classicScripts !== false;
+  const plugins = options.plugins || [];
   const deps = new Set<ResolvedUrl>();
   const eagerDeps = new Set<ResolvedUrl>();
   const lazyImports = new Set<ResolvedUrl>();
   const moduleScriptImports = new Map<string, Document>();
-  _getDependencies(document, true);
+  await _getDependencies(document, true);
   return {deps, eagerDeps, lazyImports, moduleScriptImports};
 
-  function _getDependencies(document: Document, viaEager: boolean) {
+  async function _getDependencies(document: Document, viaEager: boolean) {
     // HTML document dependencies include external modules referenced by script
     // src attribute, external modules imported by inline module import
-    // statements, and HTML imports (recursively).
+    // statements, HTML imports (recursively), classic scripts and stylesheets
+    // referenced by `<link rel="stylesheet">` tags.  HTML imports and classic
+    // scripts are visited in document order, which is the order the scripts
+    // are evaluated in.
     if (document.kinds.has('html-document')) {
       _getHtmlExternalModuleDependencies(document);
       _getHtmlInlineModuleDependencies(document);
-      _getImportDependencies(
-          document.getFeatures({kind: 'html-import', ...getFeaturesOptions}),
+      const classicScripts =
+          [...document.getFeatures(
+               {kind: 'html-script', ...getFeaturesOptions})]
+              .filter(
+                  (i) => i.document !== undefined &&
+                      (i.document.parsedDocument as JavaScriptDocument)
+                              .parsedAsSourceType !== 'module');
+      await _getImportDependencies(
+          [
+            ...document.getFeatures(
+                {kind: 'html-import', ...getFeaturesOptions}),
+            ...(includeClassicScripts ? classicScripts : []),
+          ].sort(compareSourcePositions),
           viaEager);
+      // Classic scripts which are not dependencies may still start workers.
+      if (!includeClassicScripts) {
+        for (const classicScript of classicScripts) {
+          _getWorkerDependencies(classicScript.document!);
+        }
+      }
+      if (includeStylesheets) {
+        _getHtmlStyleDependencies(document, viaEager);
+      }
     }
 
     // JavaScript documents, when parsed as modules, have dependencies defined
     // by their import statements.
     if (document.kinds.has('js-document')) {
-      _getImportDependencies(
+      await _getImportDependencies(
           // TODO(usergenic): We should be able to filter here on:
           // `.filter((d) => d.parsedAsSourceType === 'module')`
           // here, but Analyzer wont report that if there are no
           // import/export statements in the imported file.
-          document.getFeatures({kind: 'js-import', ...getFeaturesOptions}) as
-              Set<Import>,
+          await _resolveModuleImports(
+              document,
+              document.getFeatures(
+                  {kind: 'js-import', ...getFeaturesOptions}) as Set<Import>),
           viaEager);
+      _getWorkerDependencies(document);
+    }
+
+    // Inline scripts may start workers too.
+    if (document.kinds.has('html-document')) {
+      const inlineScripts =
+          document.getFeatures({kind: 'js-document', ...getFeaturesOptions});
+      for (const inlineScript of inlineScripts) {
+        if (inlineScript.kinds.has('inline-document')) {
+          _getWorkerDependencies(inlineScript);
+        }
+      }
+    }
+  }
+
+  // The scripts of module workers and service workers are lazy imports, since
+  // they are bundled on their own.  Their URLs are resolved relative to the
+  // module or document starting them.  Classic workers are left alone, since
+  // their scripts are not modules.
+  function _getWorkerDependencies(document: Document) {
+    const ast = (document.parsedDocument as JavaScriptDocument).ast;
+    for (const literal of getModuleWorkerScriptUrlLiterals(ast)) {
+      const url = analyzer.urlResolver.resolve(
+          document.url, literal.value as FileRelativeUrl);
+      if (url !== undefined && analyzer.canLoad(url)) {
+        lazyImports.add(url);
+      }
     }
   }
 
@@ -189,8 +359,50 @@ function getDependencies(
     }
   }
 
-  function _getImportDependencies(
-      imports: Iterable<Import>, viaEager: boolean) {
+  function _getHtmlStyleDependencies(document: Document, viaEager: boolean) {
+    // The analyzer marks stylesheet links as lazy, since they don't block
+    // the loading of the document, but they are loaded along with it.
+    const styles =
+        document.getFeatures({kind: 'html-style', ...getFeaturesOptions});
+    for (const style of styles) {
+      if (style.document === undefined) {
+        continue;
+      }
+      deps.add(style.document.url);
+      if (viaEager) {
+        eagerDeps.add(style.document.url);
+      }
+    }
+  }
+
+  // Plugins resolve the imports of modules before the analyzer does, and may
+  // resolve imports to modules the analyzer can't resolve.
+  async function _resolveModuleImports(
+      document: Document, imports: Iterable<Import>) {
+    const importedDocuments: ImportedDocument[] = [];
+    for (const imprt of imports) {
+      const resolved = plugins.length === 0 || imprt.originalUrl === undefined ?
+          undefined :
+          await resolveImport(plugins, imprt.originalUrl, document.url);
+      if (resolved === false) {
+        continue;
+      }
+      if (resolved === undefined ||
+          (imprt.document !== undefined && imprt.document.url === resolved)) {
+        importedDocuments.push(imprt);
+        continue;
+      }
+      const result = (await analyzer.analyze([resolved])).getDocument(resolved);
+      importedDocuments.push({
+        document: result.successful ? result.value : undefined,
+        lazy: imprt.lazy,
+      });
+    }
+    return importedDocuments;
+  }
+
+  async function _getImportDependencies(
+      imports: Iterable<ImportedDocument>, viaEager: boolean) {
     for (const imprt of imports) {
       if (imprt.document === undefined) {
         continue;
@@ -212,7 +424,7 @@ function getDependencies(
         continue;
       }
       deps.add(importUrl);
-      _getDependencies(imprt.document, isEager);
+      await _getDependencies(imprt.document, isEager);
     }
   }
 }
@@ -18,6 +18,9 @@ export interface BundledDocument {
   ast: ASTNode;
   content: string;
   files: ResolvedUrl[];
+  // The inline scripts moved out of an HTML bundle by the `csp: 'external'`
+  // mode, keyed by the URLs they are loaded from.
+  externalScripts?: DocumentCollection;
 }
 
 /* A collection of documents, keyed by path */
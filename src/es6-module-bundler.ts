@@ -21,25 +21,33 @@ import {Bundler} from './bundler';
 import {BundledDocument} from './document-collection';
 import {getModuleExportNames, getOrSetBundleModuleExportName} from './es6-module-utils';
 import {Es6Rewriter} from './es6-rewriter';
+import {appendInlineSourcemapComment} from './source-map';
 import {ensureLeadingDot, stripUrlFileSearchAndHash} from './url-utils';
 
 /**
- * Produces an ES6 Module BundledDocument.
+ * Produces an ES6 Module BundledDocument.  When `importedExportNames` is
+ * given, as it is when tree-shaking, only the exports named in it are
+ * re-exported from the bundle.  See `getImportedModuleExportNames`.
  */
 export async function bundle(
-    bundler: Bundler, manifest: BundleManifest, url: ResolvedUrl):
+    bundler: Bundler,
+    manifest: BundleManifest,
+    url: ResolvedUrl,
+    importedExportNames?: Map<ResolvedUrl, Set<string>>):
     Promise<BundledDocument> {
   const bundle = manifest.bundles.get(url);
   if (!bundle) {
     throw new Error(`No bundle found in manifest for url ${url}.`);
   }
   const assignedBundle = {url, bundle};
-  const generatedCode =
-      await prepareBundleModule(bundler, manifest, assignedBundle);
+  const generatedCode = await prepareBundleModule(
+      bundler, manifest, assignedBundle, importedExportNames);
   const es6Rewriter = new Es6Rewriter(bundler, manifest, assignedBundle);
-  const {code: rolledUpCode} = await es6Rewriter.rollup(url, generatedCode);
-  const document =
-      await bundler.analyzeContents(assignedBundle.url, rolledUpCode);
+  const {code: rolledUpCode, map} =
+      await es6Rewriter.rollup(url, generatedCode);
+  const document = await bundler.analyzeContents(
+      assignedBundle.url,
+      map ? appendInlineSourcemapComment(rolledUpCode, map) : rolledUpCode);
   return {
     ast: document.parsedDocument.ast,
     content: document.parsedDocument.contents,
@@ -62,37 +70,51 @@ export async function bundle(
  *     export {$moduleA, $moduleB, $moduleBDefault};
  */
 async function prepareBundleModule(
-    bundler: Bundler, manifest: BundleManifest, assignedBundle: AssignedBundle):
-    Promise<string> {
-      let bundleSource = babel.program([]);
-      const sourceAnalysis =
-          await bundler.analyzer.analyze([...assignedBundle.bundle.files]);
-      for (const sourceUrl of [...assignedBundle.bundle.files].sort()) {
-        const rebasedSourceUrl =
-            ensureLeadingDot(bundler.analyzer.urlResolver.relative(
-                stripUrlFileSearchAndHash(assignedBundle.url), sourceUrl));
-        const moduleDocument = getAnalysisDocument(sourceAnalysis, sourceUrl);
-        const moduleExports = getModuleExportNames(moduleDocument);
-        const starExportName =
-            getOrSetBundleModuleExportName(assignedBundle, sourceUrl, '*');
-        bundleSource.body.push(babel.importDeclaration(
-            [babel.importNamespaceSpecifier(babel.identifier(starExportName))],
-            babel.stringLiteral(rebasedSourceUrl)));
-        if (moduleExports.size > 0) {
-          bundleSource.body.push(babel.exportNamedDeclaration(
-              undefined, [babel.exportSpecifier(
-                             babel.identifier(starExportName),
-                             babel.identifier(starExportName))]));
-          bundleSource.body.push(babel.exportNamedDeclaration(
-              undefined,
-              [...moduleExports].map(
-                  (e) => babel.exportSpecifier(
-                      babel.identifier(e),
-                      babel.identifier(getOrSetBundleModuleExportName(
-                          assignedBundle, sourceUrl, e)))),
-              babel.stringLiteral(rebasedSourceUrl)));
-        }
+    bundler: Bundler,
+    manifest: BundleManifest,
+    assignedBundle: AssignedBundle,
+    importedExportNames?: Map<ResolvedUrl, Set<string>>): Promise<string> {
+  let bundleSource = babel.program([]);
+  const sourceAnalysis =
+      await bundler.analyzer.analyze([...assignedBundle.bundle.files]);
+  for (const sourceUrl of [...assignedBundle.bundle.files].sort()) {
+    const rebasedSourceUrl =
+        ensureLeadingDot(bundler.analyzer.urlResolver.relative(
+            stripUrlFileSearchAndHash(assignedBundle.url), sourceUrl));
+    const moduleDocument = getAnalysisDocument(sourceAnalysis, sourceUrl);
+    let moduleExports = getModuleExportNames(moduleDocument);
+    const starExportName =
+        getOrSetBundleModuleExportName(assignedBundle, sourceUrl, '*');
+    bundleSource.body.push(babel.importDeclaration(
+        [babel.importNamespaceSpecifier(babel.identifier(starExportName))],
+        babel.stringLiteral(rebasedSourceUrl)));
+    let exportNamespace = moduleExports.size > 0;
+    if (importedExportNames) {
+      const importedNames =
+          importedExportNames.get(sourceUrl) || new Set<string>();
+      if (!importedNames.has('*')) {
+        exportNamespace = false;
+        moduleExports =
+            new Set([...moduleExports].filter((e) => importedNames.has(e)));
       }
-      const {code} = generate(bundleSource);
-      return code;
     }
+    if (exportNamespace) {
+      bundleSource.body.push(babel.exportNamedDeclaration(
+          undefined, [babel.exportSpecifier(
+                         babel.identifier(starExportName),
+                         babel.identifier(starExportName))]));
+    }
+    if (moduleExports.size > 0) {
+      bundleSource.body.push(babel.exportNamedDeclaration(
+          undefined,
+          [...moduleExports].map(
+              (e) => babel.exportSpecifier(
+                  babel.identifier(e),
+                  babel.identifier(getOrSetBundleModuleExportName(
+                      assignedBundle, sourceUrl, e)))),
+          babel.stringLiteral(rebasedSourceUrl)));
+    }
+  }
+  const {code} = generate(bundleSource);
+  return code;
+}
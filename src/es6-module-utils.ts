@@ -11,13 +11,24 @@
  * subject to an additional IP rights grant found at
  * http://polymer.github.io/PATENTS.txt
  */
-import {Analyzer, Document, ResolvedUrl} from 'polymer-analyzer';
+import traverse, {NodePath} from 'babel-traverse';
+import * as babel from 'babel-types';
+import {Analyzer, Document, Import, ResolvedUrl} from 'polymer-analyzer';
+import {RawSourceMap} from 'source-map';
 
 import {getAnalysisDocument} from './analyzer-utils';
 import {AssignedBundle, BundleManifest} from './bundle-manifest';
+import {offsetSourceMap} from './source-map';
 import {getFileName} from './url-utils';
 import {camelCase} from './utils';
 
+/**
+ * The formats ES6 module bundles and module scripts can be output in: ES6
+ * modules, `System.register` modules for the SystemJS loader, AMD modules, or
+ * self-executing scripts.
+ */
+export type ModuleFormat = 'es' | 'system' | 'amd' | 'iife';
+
 /**
  * Looks up and/or defines the unique name for an item exported with the given
  * name in a module within a bundle.
@@ -33,8 +44,7 @@ export function getOrSetBundleModuleExportName(
   let exportName = moduleExports.get(name);
   if (!exportName) {
     let trialName = name;
-    let moduleFileNameIdentifier =
-        '$' + camelCase(getFileName(moduleUrl).replace(/\.[a-z0-9_]+$/, ''));
+    let moduleFileNameIdentifier = getModuleIdentifier(moduleUrl);
     trialName =
         trialName.replace(/^default$/, `${moduleFileNameIdentifier}Default`)
             .replace(/^\*$/, moduleFileNameIdentifier)
@@ -57,21 +67,305 @@ export function getOrSetBundleModuleExportName(
 }
 
 /**
- * Returns a set of every name exported by a module.
- *
- * TODO(usergenic): This does not include names brought in by the statement
- * `export * from './module-a.js';`.
- * https://github.com/Polymer/polymer-bundler/issues/641
+ * Returns an identifier for the module named after its file name, e.g.
+ * `$moduleA` for `module-a.js`.
+ */
+export function getModuleIdentifier(moduleUrl: ResolvedUrl): string {
+  return '$' + camelCase(getFileName(moduleUrl).replace(/\.[a-z0-9_]+$/, ''));
+}
+
+/**
+ * Returns the AMD module id for a module URL, which for relative URLs is the
+ * URL without its `.js` extension, since RequireJS loads ids ending in `.js`
+ * as URLs relative to the page, rather than resolving them as module ids.
+ */
+export function getAmdModuleId(url: string): string {
+  return /^\.{1,2}\//.test(url) ? url.replace(/\.js$/, '') : url;
+}
+
+/**
+ * Returns the code of a classic script which loads the module at the URL
+ * through the module loader of the format.
+ */
+export function getModuleLoaderCall(
+    src: string, format: 'system'|'amd'): string {
+  return format === 'system' ?
+      `System.import(${JSON.stringify(src)});` :
+      `require([${JSON.stringify(getAmdModuleId(src))}]);`;
+}
+
+// The code which loads the dependencies of an AMD module script and calls its
+// factory with them, for each module loader.
+const amdModuleScriptLoaders = {
+  amd: `
+  require(deps, factory);`,
+  system: `
+  function load(deps, resolve, reject) {
+    Promise.all(deps.map(function (dep) {
+      return dep === 'require' ? load :
+          dep === 'exports' ? {} : System.import(dep);
+    })).then(function (modules) {
+      resolve.apply(undefined, modules);
+    }, reject);
+  }
+  load(deps, factory);`,
+};
+
+/**
+ * Wraps the code of an anonymous AMD module, as output by rollup for a module
+ * script, so it runs as a classic script: its dependencies are loaded through
+ * the global `require()` of an AMD loader or through `System.import()`, and
+ * its factory is called with them.  The source map, if given, is offset by
+ * the line added before the code.
+ */
+export function wrapAmdModuleScript(
+    code: string, map: RawSourceMap|undefined, format: 'system'|'amd'):
+    {code: string, map: RawSourceMap | undefined} {
+  return {
+    code: `(function (define) {\n${code}\n}(function (deps, factory) {
+  if (typeof deps === 'function') {
+    factory = deps;
+    deps = [];
+  }${amdModuleScriptLoaders[format]}
+}));`,
+    map: map && offsetSourceMap(map, 1, 0),
+  };
+}
+
+/**
+ * Returns a set of every name exported by a module, including names brought
+ * in transitively by `export * from './module-a.js';` statements.  As in the
+ * ES spec, `export *` never re-exports `default`, a module's own exports take
+ * precedence over names from `export *`, and names which two `export *`
+ * statements resolve to different bindings are ambiguous and not exported.
  */
 export function getModuleExportNames(document: Document): Set<string> {
-  const exports_ = document.getFeatures({kind: 'export'});
-  const identifiers = new Set<string>();
-  for (const export_ of exports_) {
-    for (const identifier of export_.identifiers) {
-      identifiers.add(identifier);
+  const names = new Set<string>();
+  for (const [name, binding] of getModuleExportBindings(document, new Set())) {
+    if (binding !== ambiguousBinding) {
+      names.add(name);
+    }
+  }
+  return names;
+}
+
+/**
+ * Returns the URL of the module each `export * from` statement in a module
+ * exports from, with the names it contributes to the module's exports, in
+ * sorted order as in a module namespace.  Names exported by the module itself,
+ * by an earlier `export *` statement, or ambiguously are not included.
+ * Statements exporting from modules which could not be loaded are omitted.
+ */
+export function getModuleStarExports(document: Document):
+    Map<babel.ExportAllDeclaration, {url: ResolvedUrl, names: Set<string>}> {
+  const exportNames = getModuleExportNames(document);
+  const claimedNames = new Set<string>();
+  const starExportNodes: babel.ExportAllDeclaration[] = [];
+  for (const export_ of document.getFeatures({kind: 'export'})) {
+    if (babel.isExportAllDeclaration(export_.astNode)) {
+      starExportNodes.push(export_.astNode);
+    } else {
+      for (const identifier of export_.identifiers) {
+        claimedNames.add(identifier);
+      }
+    }
+  }
+  const starExports = new Map<
+      babel.ExportAllDeclaration,
+      {url: ResolvedUrl, names: Set<string>}>();
+  for (const node of starExportNodes) {
+    const sourceDocument = getExportSourceDocument(document, node);
+    if (!sourceDocument) {
+      continue;
+    }
+    const names = new Set<string>();
+    // Names the source module only exports through this module are not
+    // contributed by it, which also keeps `export *` cycles from resolving
+    // names in circles.
+    const sourceBindings =
+        getModuleExportBindings(sourceDocument, new Set([document.url]));
+    for (const name of [...sourceBindings.keys()].sort()) {
+      if (name !== 'default' && exportNames.has(name) &&
+          !claimedNames.has(name)) {
+        claimedNames.add(name);
+        names.add(name);
+      }
+    }
+    starExports.set(node, {url: sourceDocument.url, names});
+  }
+  return starExports;
+}
+
+// The binding of names which `export *` statements resolve ambiguously.
+const ambiguousBinding = '*ambiguous*';
+
+/**
+ * Returns a map of every name exported by a module to the binding it resolves
+ * to, identified as `<module url>#<local name>`, in order of appearance.
+ * Modules in `visiting` are being resolved further up an `export *` chain, so
+ * a cycle has been found and they contribute no further names.
+ */
+function getModuleExportBindings(
+    document: Document, visiting: Set<ResolvedUrl>): Map<string, string> {
+  const bindings = new Map<string, string>();
+  if (visiting.has(document.url)) {
+    return bindings;
+  }
+  visiting.add(document.url);
+  const exportedBindings:
+      Array<{name: string, binding: string, viaStar: boolean}> = [];
+  for (const export_ of document.getFeatures({kind: 'export'})) {
+    const node = export_.astNode;
+    if (babel.isExportAllDeclaration(node)) {
+      const sourceDocument = getExportSourceDocument(document, node);
+      if (!sourceDocument) {
+        continue;
+      }
+      for (const [name, binding] of getModuleExportBindings(
+               sourceDocument, visiting)) {
+        if (name !== 'default') {
+          exportedBindings.push({name, binding, viaStar: true});
+        }
+      }
+    } else if (babel.isExportNamedDeclaration(node) && node.source) {
+      const sourceDocument = getExportSourceDocument(document, node);
+      const sourceBindings = sourceDocument ?
+          getModuleExportBindings(sourceDocument, visiting) :
+          new Map<string, string>();
+      const sourceUrl = sourceDocument ? sourceDocument.url : node.source.value;
+      for (const specifier of node.specifiers) {
+        const localName = specifier.local ? specifier.local.name : '*';
+        exportedBindings.push({
+          name: specifier.exported.name,
+          binding: sourceBindings.get(localName) || `${sourceUrl}#${localName}`,
+          viaStar: false
+        });
+      }
+    } else {
+      for (const name of export_.identifiers) {
+        exportedBindings.push(
+            {name, binding: `${document.url}#${name}`, viaStar: false});
+      }
+    }
+  }
+  visiting.delete(document.url);
+
+  // The module's own exports shadow names from `export *` statements, even
+  // when they appear after them.
+  const ownNames = new Set(
+      exportedBindings.filter(({viaStar}) => !viaStar).map(({name}) => name));
+  for (const {name, binding, viaStar} of exportedBindings) {
+    if (!viaStar) {
+      bindings.set(name, binding);
+    } else if (!ownNames.has(name)) {
+      const existingBinding = bindings.get(name);
+      bindings.set(
+          name,
+          existingBinding === undefined || existingBinding === binding ?
+              binding :
+              ambiguousBinding);
+    }
+  }
+  return bindings;
+}
+
+/**
+ * Returns the document of the module an `export ... from` statement exports
+ * from, if it could be loaded.
+ */
+function getExportSourceDocument(
+    document: Document,
+    node: babel.ExportAllDeclaration|babel.ExportNamedDeclaration): Document|
+    undefined {
+  const jsImports = document.getFeatures({
+    kind: 'js-import',
+    imported: false,
+    externalPackages: true,
+  }) as Set<Import>;
+  for (const jsImport of jsImports) {
+    if (jsImport.astNode === node) {
+      return jsImport.document;
     }
   }
-  return identifiers;
+}
+
+/**
+ * Returns the string literals giving the URLs of module worker scripts, in
+ * `new Worker('./worker.js', {type: 'module'})` expressions, and of module
+ * service worker scripts, in
+ * `navigator.serviceWorker.register('./sw.js', {type: 'module'})` calls,
+ * including those given as `new URL('./worker.js', import.meta.url)`.  The
+ * scripts of classic workers are not modules, so they are left out, and URLs
+ * built from other expressions at runtime can't be found.
+ */
+export function getModuleWorkerScriptUrlLiterals(node: babel.Node):
+    babel.StringLiteral[] {
+  const literals: babel.StringLiteral[] = [];
+  traverse(node, {
+    noScope: true,
+    NewExpression: {
+      enter(path: NodePath) {
+        const {callee, arguments: args} = path.node as babel.NewExpression;
+        const literal = getScriptUrlLiteral(args[0]);
+        if (babel.isIdentifier(callee) && callee.name === 'Worker' && literal &&
+            isModuleWorkerOptions(args[1])) {
+          literals.push(literal);
+        }
+      }
+    },
+    CallExpression: {
+      enter(path: NodePath) {
+        const {callee, arguments: args} = path.node as babel.CallExpression;
+        const literal = getScriptUrlLiteral(args[0]);
+        if (babel.isMemberExpression(callee) &&
+            babel.isIdentifier(callee.property) &&
+            callee.property.name === 'register' &&
+            babel.isMemberExpression(callee.object) &&
+            babel.isIdentifier(callee.object.property) &&
+            callee.object.property.name === 'serviceWorker' && literal &&
+            isModuleWorkerOptions(args[1])) {
+          literals.push(literal);
+        }
+      }
+    },
+  });
+  return literals;
+}
+
+/**
+ * Returns the string literal of a script URL given as it is or as
+ * `new URL('./script.js', import.meta.url)`.
+ */
+function getScriptUrlLiteral(node: babel.Node): babel.StringLiteral|undefined {
+  if (babel.isStringLiteral(node)) {
+    return node;
+  }
+  if (babel.isNewExpression(node) && babel.isIdentifier(node.callee) &&
+      node.callee.name === 'URL' && babel.isStringLiteral(node.arguments[0]) &&
+      isImportMetaUrl(node.arguments[1])) {
+    return node.arguments[0] as babel.StringLiteral;
+  }
+  return undefined;
+}
+
+/**
+ * Returns whether the node is an object literal of worker options with
+ * `type: 'module'`.
+ */
+function isModuleWorkerOptions(node: babel.Node): boolean {
+  return babel.isObjectExpression(node) &&
+      node.properties.some(
+          (property) => babel.isObjectProperty(property) &&
+              !property.computed &&
+              (babel.isIdentifier(property.key, {name: 'type'}) ||
+               babel.isStringLiteral(property.key, {value: 'type'})) &&
+              babel.isStringLiteral(property.value, {value: 'module'}));
+}
+
+function isImportMetaUrl(node: babel.Node): boolean {
+  return babel.isMemberExpression(node) && !node.computed &&
+      babel.isMetaProperty(node.object) && node.object.meta.name === 'import' &&
+      babel.isIdentifier(node.property) && node.property.name === 'url';
 }
 
 /**
@@ -97,3 +391,79 @@ export async function reserveBundleModuleExportNames(
     }
   }
 }
+
+/**
+ * Returns a map of module URLs to the names of their exports which are
+ * imported from outside of their bundles, i.e. the exports their bundles have
+ * to re-export.  The name `*` means the module namespace, and therefore every
+ * export, is used, which is the case for modules imported with `import * as`,
+ * `export * from` or dynamic `import()` and for modules which are bundle
+ * entrypoints, since their exports are public.
+ */
+export async function getImportedModuleExportNames(
+    analyzer: Analyzer,
+    manifest: BundleManifest): Promise<Map<ResolvedUrl, Set<string>>> {
+  const importedExportNames = new Map<ResolvedUrl, Set<string>>();
+  const addImportedExportName = (url: ResolvedUrl, name: string) => {
+    let names = importedExportNames.get(url);
+    if (!names) {
+      names = new Set();
+      importedExportNames.set(url, names);
+    }
+    names.add(name);
+  };
+  const files = [...manifest.bundles.values()].reduce(
+      (files, bundle) => files.concat([...bundle.files]), [] as ResolvedUrl[]);
+  const analysis = await analyzer.analyze(files);
+  for (const [bundleUrl, bundle] of manifest.bundles) {
+    for (const entrypoint of bundle.entrypoints) {
+      if (manifest.getBundleForFile(entrypoint)) {
+        addImportedExportName(entrypoint, '*');
+      }
+    }
+    for (const file of bundle.files) {
+      const result = analysis.getDocument(file);
+      if (!result.successful) {
+        continue;
+      }
+      const jsImports = result.value.getFeatures({
+        kind: 'js-import',
+        imported: false,
+        externalPackages: true,
+        excludeBackreferences: true,
+      }) as Set<Import>;
+      for (const jsImport of jsImports) {
+        if (jsImport.document === undefined) {
+          continue;
+        }
+        const sourceUrl = jsImport.document.url;
+        const sourceBundle = manifest.getBundleForFile(sourceUrl);
+        if (!sourceBundle || sourceBundle.url === bundleUrl) {
+          continue;
+        }
+        for (const name of getImportedNames(jsImport.astNode)) {
+          addImportedExportName(sourceUrl, name);
+        }
+      }
+    }
+  }
+  return importedExportNames;
+}
+
+/**
+ * Returns the names of the exports imported by an import or export
+ * statement, or by a dynamic `import()`, where `*` means the module namespace.
+ */
+function getImportedNames(node: babel.Node): string[] {
+  if (babel.isImportDeclaration(node)) {
+    return node.specifiers.map(
+        (specifier) => babel.isImportSpecifier(specifier) ?
+            specifier.imported.name :
+            babel.isImportDefaultSpecifier(specifier) ? 'default' : '*');
+  }
+  if (babel.isExportNamedDeclaration(node)) {
+    return node.specifiers.map((specifier) => specifier.local.name);
+  }
+  // `export * from` and dynamic `import()` use the module namespace.
+  return ['*'];
+}
@@ -14,16 +14,35 @@
 import traverse, {NodePath} from 'babel-traverse';
 import * as babel from 'babel-types';
 import * as clone from 'clone';
-import {FileRelativeUrl, Import, PackageRelativeUrl, ResolvedUrl} from 'polymer-analyzer';
-import {rollup} from 'rollup';
+import * as path from 'path';
+import {Document, FileRelativeUrl, Import, PackageRelativeUrl, ResolvedUrl} from 'polymer-analyzer';
+import {rollup, RollupWarning} from 'rollup';
+import {RawSourceMap} from 'source-map';
 
 import {getAnalysisDocument} from './analyzer-utils';
 import {serialize} from './babel-utils';
 import {AssignedBundle, BundleManifest} from './bundle-manifest';
 import {Bundler} from './bundler';
-import {getOrSetBundleModuleExportName} from './es6-module-utils';
+import {getAmdModuleId, getModuleIdentifier, getModuleStarExports, getModuleWorkerScriptUrlLiterals, getOrSetBundleModuleExportName, ModuleFormat} from './es6-module-utils';
+import {minifyTaggedTemplates} from './minify';
+import {resolveImport} from './plugins';
+import {composeSourcemaps, getExistingSourcemap, toRawSourceMap} from './source-map';
 import {appendUrlPath, ensureLeadingDot, getFileExtension} from './url-utils';
 import {rewriteObject} from './utils';
+import {Severity} from './warnings';
+
+// Codes of rollup warnings which do not indicate a problem with the bundled
+// code.
+const informationalRollupWarningCodes =
+    new Set(['CIRCULAR_DEPENDENCY', 'EMPTY_BUNDLE']);
+
+// A replacement of the text between two positions in the contents of a
+// module.
+interface Replacement {
+  start: number;
+  end: number;
+  text: string;
+}
 
 /**
  * Utility class to rollup/merge ES6 modules code using rollup and rewrite
@@ -36,7 +55,17 @@ export class Es6Rewriter {
       public bundle: AssignedBundle) {
   }
 
-  async rollup(url: ResolvedUrl, code: string) {
+  /**
+   * Rolls up the code, given as the contents of the module at the URL, with
+   * the modules of the bundle it imports, and rewrites its imports of modules
+   * in other bundles to import from those bundles.  The code is output in the
+   * given format, which defaults to the bundler's `outputFormat`.
+   */
+  async rollup(
+      url: ResolvedUrl,
+      code: string,
+      format: ModuleFormat = this.bundler.outputFormat):
+      Promise<{code: string, map: RawSourceMap|undefined}> {
     // This is a synthetic module specifier used to identify the code to rollup
     // and differentiate it from the a request to contents of the document at
     // the actual given url which should load from the analyzer.
@@ -54,19 +83,31 @@ export class Es6Rewriter {
     // resolutions for such things as bare module specifiers.
     const jsImportResolvedUrls =
         new Map<ResolvedUrl, Map<string, ResolvedUrl>>();
+    // The contents of every module given to rollup, keyed by module id, which
+    // are needed to find the upstream source maps of the modules.
+    const loadedContents = new Map<string, string>();
     const rollupBundle = await rollup({
       input,
       external,
-      onwarn: (warning: string) => {},
-      treeshake: false,
+      onwarn: (warning: string | RollupWarning) =>
+          this._addRollupWarning(url, input, warning),
+      treeshake: this.bundler.treeshake,
       plugins: [
         {
           name: 'analyzerPlugin',
-          resolveId: (importee: string, importer?: string) => {
+          resolveId: async (importee: string, importer?: string) => {
             if (importee === input) {
               return input;
             }
             if (importer) {
+              // Plugins resolve imports before the analyzer does.
+              const resolved = await resolveImport(
+                  this.bundler.plugins,
+                  importee,
+                  importer === input ? url : importer as ResolvedUrl);
+              if (resolved !== undefined) {
+                return resolved;
+              }
               if (jsImportResolvedUrls.has(importer as ResolvedUrl)) {
                 const resolutions =
                     jsImportResolvedUrls.get(importer as ResolvedUrl)!;
@@ -81,8 +122,9 @@ export class Es6Rewriter {
             return this.bundler.analyzer.urlResolver.resolve(
                        importee as PackageRelativeUrl)! as string;
           },
-          load: (id: ResolvedUrl) => {
+          load: async (id: ResolvedUrl) => {
             if (id === input) {
+              loadedContents.set(id, code);
               return code;
             }
             if (this.bundle.bundle.files.has(id)) {
@@ -104,16 +146,24 @@ export class Es6Rewriter {
                   }
                 }
               }
-              return document.parsedDocument.contents;
+              const contents = this._rewriteModuleContents(url, document);
+              loadedContents.set(id, contents);
+              return contents;
             }
+            // Modules resolved by plugins which could not be analyzed are in
+            // no bundle, so they are loaded as they are.
+            const contents = await this.bundler.analyzer.load(id);
+            loadedContents.set(id, contents);
+            return contents;
           },
         },
       ],
       experimentalDynamicImport: true,
     });
-    const {code: rolledUpCode} = await rollupBundle.generate({
+    const {code: rolledUpCode, map: rolledUpMap} = await rollupBundle.generate({
       format: 'es',
       freeze: false,
+      sourcemap: this.bundler.sourcemaps,
     });
     // We have to force the extension of the URL to analyze here because inline
     // es6 module document url is going to end in `.html` and the file would be
@@ -124,10 +174,203 @@ export class Es6Rewriter {
     const rolledUpDocument = await this.bundler.analyzeContents(
         rolledUpUrl as ResolvedUrl, rolledUpCode);
     const babelFile = rolledUpDocument.parsedDocument.ast;
+    if (format === 'iife') {
+      this._checkIifeImports(url, rollupBundle.imports, babelFile);
+    }
     this._rewriteImportStatements(url, babelFile);
+    this._rewriteWorkerScriptUrls(url, babelFile);
     this._deduplicateImportStatements(babelFile);
-    const {code: rewrittenCode} = serialize(babelFile);
-    return {code: rewrittenCode, map: undefined};
+    if (format === 'system') {
+      this._aliasRepeatedExports(babelFile);
+    }
+    // Module scripts for the SystemJS loader are output in the `amd` format
+    // too, but are loaded by URL.
+    if (format === 'amd' && this.bundler.outputFormat === 'amd') {
+      this._rewriteAmdModuleIds(babelFile);
+    }
+    if (this.bundler.minify.templates) {
+      minifyTaggedTemplates(babelFile);
+    }
+    let rewrittenCode: string;
+    let map: RawSourceMap|undefined;
+    if (!this.bundler.sourcemaps) {
+      rewrittenCode =
+          serialize(babelFile, undefined, this.bundler.minify.js).code;
+    } else {
+      const serialized =
+          serialize(babelFile, rolledUpUrl, this.bundler.minify.js);
+      rewrittenCode = serialized.code;
+      map = await this._composeSourcemap(
+          url,
+          input,
+          loadedContents,
+          rolledUpUrl,
+          toRawSourceMap(rolledUpMap!),
+          serialized.map as RawSourceMap);
+    }
+    if (format === 'es') {
+      return {code: rewrittenCode, map};
+    }
+    return this._convertModuleFormat(url, format, rewrittenCode, map);
+  }
+
+  /**
+   * Converts the rewritten ES6 module code to another module format with a
+   * second pass of rollup in which every import is external, so imports of
+   * other bundles, including dynamic `import()`s, are left to the module
+   * loader of the format.  The exports of IIFE bundles are assigned to a
+   * global named after the URL, e.g. `$sharedBundle1` for `shared_bundle_1.js`.
+   */
+  private async _convertModuleFormat(
+      url: ResolvedUrl,
+      format: ModuleFormat,
+      code: string,
+      map: RawSourceMap|
+      undefined): Promise<{code: string, map: RawSourceMap|undefined}> {
+    const input = '*bundle*';
+    const rollupBundle = await rollup({
+      input,
+      external: (id: string) => id !== input,
+      onwarn: (warning: string | RollupWarning) =>
+          this._addRollupWarning(url, input, warning),
+      treeshake: false,
+      plugins: [
+        {
+          name: 'moduleFormatPlugin',
+          resolveId: (importee: string) => importee === input ? input : false,
+          load: (id: string) => id === input ? code : undefined,
+        },
+      ],
+      experimentalDynamicImport: true,
+    });
+    const {code: convertedCode, map: convertedMap} =
+        await rollupBundle.generate({
+          format,
+          freeze: false,
+          name: getModuleIdentifier(url),
+          sourcemap: map !== undefined,
+        });
+    if (!map || !convertedMap) {
+      return {code: convertedCode, map: undefined};
+    }
+    return {
+      code: convertedCode,
+      map: composeSourcemaps(
+          toRawSourceMap(convertedMap), new Map([[input, map]])),
+    };
+  }
+
+  /**
+   * Throws when the rolled up code of an IIFE bundle imports other bundles,
+   * statically or with dynamic `import()`s, since self-executing scripts have
+   * no module loader to load them with.
+   */
+  private _checkIifeImports(
+      url: ResolvedUrl,
+      imports: string[],
+      node: babel.Node) {
+    const importedUrls = [...imports];
+    traverse(node, {
+      noScope: true,
+      // Dynamic import() syntax doesn't have full type support yet, so we
+      // have to use generic `enter` and walk all nodes.
+      enter(path: NodePath) {
+        if (path.node.type === 'Import') {
+          const [source] = (path.parent as babel.CallExpression).arguments;
+          importedUrls.push(
+              babel.isStringLiteral(source) ? source.value : 'import()');
+        }
+      },
+    });
+    if (importedUrls.length > 0) {
+      throw new Error(
+          `The "iife" output format can not be used for bundles which import ` +
+          `other bundles, but ${url} imports ${importedUrls.join(', ')}.`);
+    }
+  }
+
+  /**
+   * Records a warning reported by rollup on the bundle.  Warnings about the
+   * synthetic input module are reported for the URL being bundled.
+   */
+  private _addRollupWarning(
+      url: ResolvedUrl,
+      input: string,
+      warning: string|RollupWarning) {
+    if (typeof warning === 'string') {
+      warning = {message: warning};
+    }
+    const code = warning.code || 'WARNING';
+    const id = warning.loc ? warning.loc.file : warning.id;
+    const isModuleWarning = id !== undefined && id !== input;
+    const position =
+        warning.loc && {line: warning.loc.line - 1, column: warning.loc.column};
+    this.bundle.bundle.warnings.push({
+      code: `rollup-${code.toLowerCase().replace(/_/g, '-')}`,
+      message: warning.message || code,
+      severity: informationalRollupWarningCodes.has(code) ? Severity.INFO :
+                                                            Severity.WARNING,
+      url: isModuleWarning ? id as ResolvedUrl : url,
+      range: isModuleWarning && position ? {start: position, end: position} :
+                                           undefined,
+    });
+  }
+
+  /**
+   * Produces the source map for the rewritten rollup output by tracing the
+   * rewrite's source map back through rollup's source map and then through
+   * any existing source maps of the rolled up modules, as referenced by their
+   * `//# sourceMappingURL` comments.
+   *
+   * Mappings into the synthetic input module are dropped unless the input
+   * has an existing source map of its own, as is the case for inline module
+   * scripts which had source maps added when their HTML was inlined.
+   */
+  private async _composeSourcemap(
+      url: ResolvedUrl,
+      input: string,
+      loadedContents: Map<string, string>,
+      rolledUpUrl: string,
+      rolledUpMap: RawSourceMap,
+      rewrittenMap: RawSourceMap): Promise<RawSourceMap> {
+    // Rollup treats module ids as filesystem paths and rewrites the sources of
+    // its source map to be relative to the output file's folder, which mangles
+    // URL ids like `file:///a.js` into `file:/a.js`, so we have to map them
+    // back to the original ids.
+    const rollupOutputFolder = path.dirname(path.resolve(input));
+    const rollupSourceIds = new Map<string, string>();
+    for (const id of loadedContents.keys()) {
+      rollupSourceIds.set(
+          path.relative(rollupOutputFolder, id).replace(/\\/g, '/'), id);
+    }
+    const rollupSourcemap = Object.assign({}, rolledUpMap, {
+      sources: rolledUpMap.sources.map(
+          (source) => rollupSourceIds.get(source) || source),
+      sourcesContent: undefined,
+    });
+
+    const upstreamSourcemaps = new Map<string, RawSourceMap>();
+    for (const [id, contents] of loadedContents) {
+      let sourcemap: RawSourceMap|null = null;
+      try {
+        sourcemap = await getExistingSourcemap(
+            this.bundler.analyzer, id === input ? url : id, contents);
+      } catch (e) {
+        // Unreadable source maps are ignored here in the same way they are
+        // for inline scripts in HTML documents.
+      }
+      if (sourcemap) {
+        upstreamSourcemaps.set(id, sourcemap);
+      } else if (id === input) {
+        upstreamSourcemaps.set(
+            id, {version: 3, file: url, sources: [], names: [], mappings: ''});
+      }
+    }
+
+    return composeSourcemaps(
+        composeSourcemaps(
+            rewrittenMap, new Map([[rolledUpUrl, rollupSourcemap]])),
+        upstreamSourcemaps);
   }
 
   /**
@@ -177,6 +420,317 @@ export class Es6Rewriter {
     });
   }
 
+  /**
+   * Gives each name a binding is exported under, but the first, a constant
+   * holding the binding, because rollup's `system` format only exports a
+   * binding under one of its names.  Names exported this way do not follow
+   * later assignments to the binding.
+   *
+   * Before:
+   *     export { deep, deep as deep$1 };
+   *
+   * After:
+   *     const deep$1$alias = deep;
+   *     export { deep, deep$1$alias as deep$1 };
+   */
+  private _aliasRepeatedExports(node: babel.Node) {
+    const identifiers = new Set<string>();
+    traverse(node, {
+      noScope: true,
+      Identifier: {
+        enter(path: NodePath) {
+          identifiers.add((path.node as babel.Identifier).name);
+        }
+      }
+    });
+    const exportedLocals = new Set<string>();
+    traverse(node, {
+      noScope: true,
+      ExportNamedDeclaration: {
+        enter(path: NodePath) {
+          const exportDeclaration = path.node;
+          if (!babel.isExportNamedDeclaration(exportDeclaration) ||
+              exportDeclaration.source) {
+            return;
+          }
+          const aliasDeclarators: babel.VariableDeclarator[] = [];
+          for (const specifier of exportDeclaration.specifiers) {
+            if (!babel.isExportSpecifier(specifier)) {
+              continue;
+            }
+            const local = specifier.local.name;
+            if (!exportedLocals.has(local)) {
+              exportedLocals.add(local);
+              continue;
+            }
+            let alias = `${specifier.exported.name}$alias`;
+            for (let i = 1; identifiers.has(alias); ++i) {
+              alias = `${specifier.exported.name}$alias${i}`;
+            }
+            identifiers.add(alias);
+            aliasDeclarators.push(babel.variableDeclarator(
+                babel.identifier(alias), babel.identifier(local)));
+            specifier.local = babel.identifier(alias);
+          }
+          if (aliasDeclarators.length > 0) {
+            path.insertBefore(
+                babel.variableDeclaration('const', aliasDeclarators));
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Rewrites the relative URLs of the modules imported by the code to AMD
+   * module ids without the `.js` extension, which RequireJS resolves relative
+   * to the id of the importing module.
+   *
+   * Before:
+   *     import { shared } from './shared_bundle_1.js';
+   *
+   * After:
+   *     import { shared } from './shared_bundle_1';
+   */
+  private _rewriteAmdModuleIds(node: babel.Node) {
+    traverse(node, {
+      noScope: true,
+      enter(path: NodePath) {
+        const node = path.node;
+        let source: babel.Node|null = null;
+        if (babel.isImportDeclaration(node) ||
+            babel.isExportNamedDeclaration(node) ||
+            babel.isExportAllDeclaration(node)) {
+          source = node.source;
+        } else if (
+            babel.isCallExpression(node) &&
+            (node.callee.type as string) === 'Import') {
+          source = node.arguments[0];
+        }
+        if (source && babel.isStringLiteral(source)) {
+          source.value = getAmdModuleId(source.value);
+        }
+      },
+    });
+  }
+
+  /**
+   * Returns the contents of a module of the bundle, with its star exports,
+   * the URLs of the worker scripts it starts and its uses of `import.meta`
+   * rewritten for rollup.
+   */
+  private _rewriteModuleContents(baseUrl: ResolvedUrl, document: Document):
+      string {
+    const contents = document.parsedDocument.contents;
+    const replacements = [
+      ...this._rewriteStarExports(document),
+      ...this._resolveWorkerScriptUrls(document),
+      ...this._rebaseImportMetaUrls(baseUrl, document),
+    ].sort((a, b) => a.start - b.start);
+    let rewrittenContents = '';
+    let position = 0;
+    for (const {start, end, text} of replacements) {
+      rewrittenContents += contents.slice(position, start) + text;
+      position = end;
+    }
+    return rewrittenContents + contents.slice(position);
+  }
+
+  /**
+   * Returns the replacements of every `export * from` statement of a module
+   * by an explicit export of the names it exports, as resolved by
+   * `getModuleStarExports`.  Rollup can neither resolve `export *` cycles nor
+   * tell which names a module outside this bundle exports, so could not
+   * include them in the namespace of the module or have them rewritten to the
+   * names exported by their bundle.  Names from modules outside this bundle
+   * are imported under aliases, because rollup does not include names
+   * re-exported directly from external modules in the namespace either.
+   *
+   * Before:
+   *     export * from './module-a.js';
+   *     export * from './module-in-other-bundle.js';
+   *
+   * After:
+   *     export {a1, a2} from './module-a.js';
+   *     import {b1 as b1$star} from './module-in-other-bundle.js';
+   *     export {b1$star as b1};
+   */
+  private _rewriteStarExports(document: Document): Replacement[] {
+    const contents = document.parsedDocument.contents;
+    const starExports = [...getModuleStarExports(document)];
+    if (starExports.length === 0) {
+      return [];
+    }
+    const identifiers = new Set<string>();
+    traverse(document.parsedDocument.ast, {
+      noScope: true,
+      Identifier: {
+        enter(path: NodePath) {
+          identifiers.add((path.node as babel.Identifier).name);
+        }
+      }
+    });
+    const replacements: Replacement[] = [];
+    for (const [node, {url, names}] of starExports) {
+      const source = contents.slice(node.source.start, node.source.end);
+      const {start, end} = node;
+      if (this.bundle.bundle.files.has(url)) {
+        replacements.push({
+          start,
+          end,
+          text: `export {${[...names].join(', ')}} from ${source};`,
+        });
+        continue;
+      }
+      const aliases = [...names].map((name) => {
+        let alias = `${name}$star`;
+        for (let i = 1; identifiers.has(alias); ++i) {
+          alias = `${name}$star${i}`;
+        }
+        identifiers.add(alias);
+        return alias;
+      });
+      const imports = [...names].map((name, i) => `${name} as ${aliases[i]}`);
+      const exports = [...names].map((name, i) => `${aliases[i]} as ${name}`);
+      replacements.push({
+        start,
+        end,
+        text: `import {${imports.join(', ')}} from ${source}; ` +
+            `export {${exports.join(', ')}};`,
+      });
+    }
+    return replacements;
+  }
+
+  /**
+   * Resolves the URLs of the module worker and service worker scripts started
+   * by a module, since rolled up code no longer knows which module it came
+   * from.  They are made relative to the bundles of the scripts afterwards, by
+   * `_rewriteWorkerScriptUrls`.
+   *
+   * Before:
+   *     new Worker('./worker.js', {type: 'module'});
+   *
+   * After:
+   *     new Worker("file:///my-project/src/worker.js", {type: 'module'});
+   */
+  private _resolveWorkerScriptUrls(document: Document): Replacement[] {
+    const replacements: Replacement[] = [];
+    for (const literal of getModuleWorkerScriptUrlLiterals(
+             document.parsedDocument.ast as babel.Node)) {
+      const url = this.bundler.analyzer.urlResolver.resolve(
+          document.url, literal.value as FileRelativeUrl);
+      if (url !== undefined) {
+        replacements.push({
+          start: literal.start,
+          end: literal.end,
+          text: JSON.stringify(url)
+        });
+      }
+    }
+    return replacements;
+  }
+
+  /**
+   * Rebases the uses of `import.meta` in a module, which refers to the bundle
+   * once the module is rolled up into it, to the original URL of the module.
+   * Relative URLs resolved against `import.meta.url` are made relative to the
+   * bundle, and other uses of `import.meta.url`, or of `import.meta` itself,
+   * like Polymer's `importMeta`, are given the URL of the module resolved
+   * against the bundle's URL.
+   *
+   * Before:
+   *     new URL('./icon.svg', import.meta.url);
+   *     console.log(import.meta.url);
+   *
+   * After:
+   *     new URL('./src/icon.svg', import.meta.url);
+   *     console.log(new URL('./src/module-a.js', import.meta.url).href);
+   */
+  private _rebaseImportMetaUrls(baseUrl: ResolvedUrl, document: Document):
+      Replacement[] {
+    if (document.url === baseUrl) {
+      return [];
+    }
+    const urlResolver = this.bundler.analyzer.urlResolver;
+    const relativeUrl = (url: ResolvedUrl) =>
+        JSON.stringify(ensureLeadingDot(urlResolver.relative(baseUrl, url)));
+    const moduleUrl =
+        `new URL(${relativeUrl(document.url)}, import.meta.url).href`;
+    const workerScriptUrlLiterals =
+        new Set<babel.Node>(getModuleWorkerScriptUrlLiterals(
+            document.parsedDocument.ast as babel.Node));
+    const replacements: Replacement[] = [];
+    traverse(document.parsedDocument.ast as babel.Node, {
+      noScope: true,
+      MetaProperty: {
+        enter(path: NodePath) {
+          const node = path.node as babel.MetaProperty;
+          if (node.meta.name !== 'import') {
+            return;
+          }
+          const parent = path.parent;
+          if (!babel.isMemberExpression(parent) || parent.computed ||
+              !babel.isIdentifier(parent.property)) {
+            replacements.push({
+              start: node.start,
+              end: node.end,
+              text: `({url: ${moduleUrl}})`,
+            });
+            return;
+          }
+          if (parent.property.name !== 'url') {
+            return;
+          }
+          const grandparent = path.parentPath.parent;
+          if (babel.isNewExpression(grandparent) &&
+              babel.isIdentifier(grandparent.callee) &&
+              grandparent.callee.name === 'URL' &&
+              grandparent.arguments[1] === parent) {
+            const literal = grandparent.arguments[0];
+            // The URLs of worker scripts are rewritten to their bundles.
+            if (!babel.isStringLiteral(literal) ||
+                workerScriptUrlLiterals.has(literal)) {
+              return;
+            }
+            const url = urlResolver.resolve(
+                document.url, literal.value as FileRelativeUrl);
+            if (url !== undefined) {
+              replacements.push({
+                start: literal.start,
+                end: literal.end,
+                text: relativeUrl(url),
+              });
+            }
+            return;
+          }
+          replacements.push(
+              {start: parent.start, end: parent.end, text: moduleUrl});
+        }
+      },
+    });
+    return replacements;
+  }
+
+  /**
+   * Rewrites the URLs of the module worker and service worker scripts started
+   * by the code to be relative paths to the bundles of the scripts, like
+   * `_rewriteDynamicImport` does for `import()`.
+   */
+  private _rewriteWorkerScriptUrls(baseUrl: ResolvedUrl, node: babel.Node) {
+    const urlResolver = this.bundler.analyzer.urlResolver;
+    for (const literal of getModuleWorkerScriptUrlLiterals(node)) {
+      const url =
+          urlResolver.resolve(baseUrl, literal.value as FileRelativeUrl);
+      if (url === undefined) {
+        continue;
+      }
+      const bundle = this.manifest.getBundleForFile(url);
+      literal.value = ensureLeadingDot(
+          urlResolver.relative(baseUrl, bundle ? bundle.url : url));
+    }
+  }
+
   /**
    * Rewrite import declarations source URLs reference the bundle URL for
    * bundled files and import names to correspond to names as exported by
@@ -235,6 +789,31 @@ export class Es6Rewriter {
               ensureLeadingDot(this_.bundler.analyzer.urlResolver.relative(
                   baseUrl, sourceBundle.url));
         }
+      },
+      ExportNamedDeclaration: {
+        enter(path: NodePath) {
+          const exportDeclaration = path.node as babel.ExportNamedDeclaration;
+          if (!exportDeclaration.source ||
+              !babel.isStringLiteral(exportDeclaration.source)) {
+            return;
+          }
+          const source = exportDeclaration.source.value as ResolvedUrl;
+          const sourceBundle = this_.manifest.getBundleForFile(source);
+          if (!sourceBundle) {
+            exportDeclaration.source.value =
+                this_.bundler.analyzer.urlResolver.relative(baseUrl, source);
+            return;
+          }
+          for (const specifier of exportDeclaration.specifiers) {
+            if (babel.isExportSpecifier(specifier)) {
+              this_._rewriteExportSpecifierName(
+                  specifier, source, sourceBundle);
+            }
+          }
+          exportDeclaration.source.value =
+              ensureLeadingDot(this_.bundler.analyzer.urlResolver.relative(
+                  baseUrl, sourceBundle.url));
+        }
       }
     });
   }
@@ -337,6 +916,26 @@ export class Es6Rewriter {
     specifier.imported.name = exportName;
   }
 
+  /**
+   * Changes a re-export specifier to use the exported name defined in the
+   * bundle.
+   *
+   * Before:
+   *     export {something} from './module-a.js';
+   *
+   * After:
+   *     export {something_1 as something} from './bundle_1.js';
+   */
+  private _rewriteExportSpecifierName(
+      specifier: babel.ExportSpecifier,
+      source: ResolvedUrl,
+      sourceBundle: AssignedBundle) {
+    const originalExportName = specifier.local.name;
+    const exportName = getOrSetBundleModuleExportName(
+        sourceBundle, source, originalExportName);
+    specifier.local = babel.identifier(exportName);
+  }
+
   /**
    * Changes an import specifier to use the exported name for original module's
    * default as defined in the bundle.
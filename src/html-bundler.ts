@@ -18,18 +18,26 @@ import {ASTNode, parseFragment, serialize, treeAdapters} from 'parse5';
 import {Document, FileRelativeUrl, ParsedHtmlDocument, ResolvedUrl} from 'polymer-analyzer';
 
 import {getAnalysisDocument} from './analyzer-utils';
+import {rewriteAssetUrl, rewriteCssAssetUrls} from './assets';
 import {AssignedBundle, BundleManifest} from './bundle-manifest';
+import {getBundleImports} from './bundle-order';
 import {Bundler} from './bundler';
 import constants from './constants';
-import {BundledDocument} from './document-collection';
+import {inlineCssImports} from './css-bundler';
+import {rewriteCssTextBaseUrl} from './css-utils';
+import {BundledDocument, DocumentCollection} from './document-collection';
+import {getModuleLoaderCall, wrapAmdModuleScript} from './es6-module-utils';
 import {Es6Rewriter} from './es6-rewriter';
 import * as matchers from './matchers';
+import {collapseWhitespace, minifyCss, minifyJs} from './minify';
 import {findAncestor, insertAfter, insertAllBefore, inSourceOrder, isSameNode, prepend, removeElementAndNewline, siblingsAfter, stripComments} from './parse5-utils';
-import {addOrUpdateSourcemapComment} from './source-map';
+import {transformBundle} from './plugins';
+import {addOrUpdateSourcemapComment, appendInlineSourcemapComment, offsetSourceMap} from './source-map';
 import {updateSourcemapLocations} from './source-map';
 import encodeString from './third_party/UglifyJS2/encode-string';
-import {ensureTrailingSlash, getFileExtension, isTemplatedUrl, rewriteHrefBaseUrl, stripUrlFileSearchAndHash} from './url-utils';
-import {find, rewriteObject} from './utils';
+import {appendUrlPath, getFileExtension, isTemplatedUrl, rewriteHrefBaseUrl, stripUrlFileSearchAndHash} from './url-utils';
+import {find, getCspHash, rewriteObject} from './utils';
+import {Severity} from './warnings';
 
 /**
  * Produces an HTML BundledDocument.
@@ -76,24 +84,59 @@ export class HtmlBundler {
     await this._inlineHtmlImports(ast);
 
     await this._updateExternalModuleScripts(ast);
+    this._updateStylesheetLinks(ast);
+    this._updateClassicScripts(ast);
     if (this.bundler.enableScriptInlining) {
       await this._inlineNonModuleScripts(ast);
       await this._inlineModuleScripts(ast);
+    } else if (this.bundler.outputFormat !== 'es') {
+      // Inline module scripts can only be converted to other formats once
+      // their imports are rolled up.
+      await this._inlineModuleScripts(ast);
+    }
+    if (this.bundler.outputFormat !== 'es') {
+      this._rewriteExternalModuleScripts(ast);
+    }
+    if (this.bundler.preloadModuleBundles || this.bundler.prefetchLazyBundles) {
+      await this._injectResourceHints(ast);
     }
     if (this.bundler.enableCssInlining) {
       await this._inlineStylesheetLinks(ast);
       await this._inlineStylesheetImports(ast);
     }
+    if (this.bundler.inlineAssetsMaxBytes !== undefined ||
+        this.bundler.collectAssets) {
+      await this._rewriteAssetUrls(ast);
+    }
+    if (this.bundler.sri) {
+      this._addIntegrityAttributes(ast);
+    }
     if (this.bundler.stripComments) {
       stripComments(ast);
     }
     this._removeEmptyHiddenDivs(ast);
+    await this._minify(ast);
+    // Scripts are moved out before their source maps are offset by their
+    // locations in the bundle, since they start their own files.
+    const externalScripts = this.bundler.csp === 'external' ?
+        await this._externalizeInlineScripts(ast) :
+        undefined;
     if (this.bundler.sourcemaps) {
       ast = updateSourcemapLocations(this.document, ast);
     }
     const content = serialize(ast);
     const files = [...this.assignedBundle.bundle.files];
-    return {ast, content, files};
+    const document = await transformBundle(
+        this.bundler.plugins,
+        this.assignedBundle.url,
+        {ast, content, files, externalScripts});
+    // Plugins may change the inline scripts and styles, so the hashes are of
+    // the content they return.
+    if (this.bundler.csp) {
+      this.assignedBundle.bundle.cspHashes =
+          this._getCspHashes(parseFragment(document.content));
+    }
+    return document;
   }
 
   /**
@@ -107,9 +150,9 @@ export class HtmlBundler {
   private async _addOrUpdateSourcemapsForInlineScripts(
       originalDoc: Document,
       reparsedDoc: ParsedHtmlDocument,
-      oldBaseUrl: ResolvedUrl) {
-    const inlineScripts =
-        dom5.queryAll(reparsedDoc.ast, matchers.inlineNonModuleScript);
+      oldBaseUrl: ResolvedUrl,
+      scriptMatcher: matchers.Matcher = matchers.inlineScript) {
+    const inlineScripts = dom5.queryAll(reparsedDoc.ast, scriptMatcher);
     const promises = inlineScripts.map(scriptAst => {
       let content = dom5.getTextContent(scriptAst);
       const sourceRange = reparsedDoc.sourceRangeForStartTag(scriptAst)!;
@@ -308,9 +351,8 @@ export class HtmlBundler {
     // the import link alone.  Unless the file was specifically excluded, we
     // need to record it as a "missing import".
     if (!importBundle) {
-      if (!this.bundler.excludes.some(
-              (u) => u === resolvedImportUrl ||
-                  resolvedImportUrl.startsWith(ensureTrailingSlash(u)))) {
+      if (!this.bundler.isExcluded(
+              resolvedImportUrl, this.assignedBundle.url)) {
         this.assignedBundle.bundle.missingImports.add(resolvedImportUrl);
       }
       return;
@@ -443,6 +485,85 @@ export class HtmlBundler {
     }
   }
 
+  /**
+   * Update the `src` attribute of external classic script tags referencing
+   * scripts in classic script bundles to point at the bundles.  The tags
+   * referencing the scripts of a bundle are adjacent, since bundles are split
+   * where they are not, so the first of them is pointed at the bundle and the
+   * others are removed.
+   */
+  private _updateClassicScripts(ast: ASTNode) {
+    const linkedBundleUrls = new Set<ResolvedUrl>();
+    const scripts = dom5.queryAll(ast, matchers.externalNonModuleScript);
+    for (const script of scripts) {
+      const scriptUrl = this.bundler.analyzer.urlResolver.resolve(
+          this.assignedBundle.url,
+          dom5.getAttribute(script, 'src') as FileRelativeUrl);
+      if (scriptUrl === undefined) {
+        continue;
+      }
+      const scriptBundle = this.manifest.getBundleForFile(scriptUrl);
+      if (!scriptBundle || scriptBundle.bundle.type !== 'classic-script') {
+        continue;
+      }
+      if (linkedBundleUrls.has(scriptBundle.url)) {
+        removeElementAndNewline(script);
+        continue;
+      }
+      linkedBundleUrls.add(scriptBundle.url);
+      dom5.setAttribute(
+          script,
+          'src',
+          this.bundler.analyzer.urlResolver.relative(
+              this.assignedBundle.url, scriptBundle.url));
+    }
+  }
+
+  /**
+   * Update the `href` attribute of `<link rel="stylesheet">` tags referencing
+   * stylesheets in CSS bundles to point at the bundles, removing the links to
+   * bundles which are already linked from the same document or template.
+   * The links to the stylesheets of a bundle are adjacent, since bundles are
+   * split where they are not, so this keeps the order of the rules.
+   */
+  private _updateStylesheetLinks(ast: ASTNode) {
+    const baseUrls = this._getAssetBaseUrls(ast);
+    const linkedBundleUrls = new Map<ASTNode, Set<ResolvedUrl>>();
+    const cssLinks = dom5.queryAll(
+        ast, matchers.externalStyle, undefined, dom5.childNodesIncludeTemplate);
+    for (const cssLink of cssLinks) {
+      const baseUrl = baseUrls.get(cssLink) || this.assignedBundle.url;
+      const href = dom5.getAttribute(cssLink, 'href');
+      const stylesheetUrl = href &&
+          this.bundler.analyzer.urlResolver.resolve(
+              baseUrl, href as FileRelativeUrl);
+      if (!stylesheetUrl) {
+        continue;
+      }
+      const cssBundle = this.manifest.getBundleForFile(stylesheetUrl);
+      if (!cssBundle || cssBundle.bundle.type !== 'css') {
+        continue;
+      }
+      // Template contents are fragments of their own, so the links in them
+      // are tracked apart from the links in the document.
+      let root = cssLink;
+      while (root.parentNode) {
+        root = root.parentNode;
+      }
+      const bundleUrls = linkedBundleUrls.get(root) || new Set<ResolvedUrl>();
+      linkedBundleUrls.set(root, bundleUrls);
+      if (bundleUrls.has(cssBundle.url)) {
+        removeElementAndNewline(cssLink);
+        continue;
+      }
+      bundleUrls.add(cssBundle.url);
+      dom5.setAttribute(
+          cssLink,
+          'href',
+          this.bundler.analyzer.urlResolver.relative(baseUrl, cssBundle.url));
+    }
+  }
+
   /**
    * Inlines the contents of external module scripts and rolls-up imported
    * modules into inline scripts.
@@ -463,18 +584,340 @@ export class HtmlBundler {
                      isInline,
                      parsedDocument: {parsedAsSourceType}
                    }) => isInline && parsedAsSourceType === 'module');
+    const format = this.bundler.outputFormat;
     for (const inlineModuleScript of inlineModuleScripts) {
-      const {code} = await es6Rewriter.rollup(
+      // Module scripts for the SystemJS loader are output as AMD modules,
+      // since anonymous `System.register` calls can't run as classic scripts.
+      let {code, map} = await es6Rewriter.rollup(
           this.document.parsedDocument.baseUrl,
-          inlineModuleScript.parsedDocument.contents);
+          inlineModuleScript.parsedDocument.contents,
+          format === 'system' ? 'amd' : format);
+      if (format === 'system' || format === 'amd') {
+        ({code, map} = wrapAmdModuleScript(code, map, format));
+      }
+      // The rolled up code starts on the line after the script tag, so the
+      // source map generated lines are offset by one here to be relative to
+      // the script tag, like other inline script source maps at this stage.
+      const scriptContent = map ? appendInlineSourcemapComment(
+                                      `\n${code}`, offsetSourceMap(map, 1, 0)) :
+                                  `\n${code}\n`;
       // Second argument 'true' tells encodeString to escape the <script>
       // content.
-      dom5.setTextContent(
-          (inlineModuleScript.astNode as any).node,
-          encodeString(`\n${code}\n`, true));
+      const scriptTag = (inlineModuleScript.astNode as any).node;
+      dom5.setTextContent(scriptTag, encodeString(scriptContent, true));
+      if (format !== 'es') {
+        dom5.removeAttribute(scriptTag, 'type');
+      }
+    }
+  }
+
+  /**
+   * Rewrites external module scripts to load their bundles in the bundler's
+   * `outputFormat`: inline scripts calling `System.import()` or the `require()`
+   * of an AMD loader replace them, and IIFE bundles are loaded by deferred
+   * classic scripts, which run in the same order as module scripts.
+   */
+  private _rewriteExternalModuleScripts(ast: ASTNode) {
+    const format = this.bundler.outputFormat;
+    for (const script of dom5.queryAll(ast, matchers.externalModuleScript)) {
+      if (format === 'iife') {
+        dom5.removeAttribute(script, 'type');
+        if (!dom5.hasAttribute(script, 'async')) {
+          dom5.setAttribute(script, 'defer', '');
+        }
+        continue;
+      }
+      if (format !== 'system' && format !== 'amd') {
+        continue;
+      }
+      let src = dom5.getAttribute(script, 'src')!;
+      // Module loaders treat URLs without a leading `./`, `../` or `/` as
+      // bare module specifiers.
+      if (!/^(\.{0,2}\/|[a-z][\w+.-]*:)/i.test(src)) {
+        src = './' + src;
+      }
+      const loaderScript = dom5.constructors.element('script');
+      dom5.setTextContent(loaderScript, getModuleLoaderCall(src, format));
+      dom5.replace(script, loaderScript);
+    }
+  }
+
+  /**
+   * Minifies the inline scripts and styles of the document and collapses its
+   * whitespace, as the `minify` option says.  The source maps of inline
+   * scripts still map from their positions within the script tags.
+   */
+  private async _minify(ast: ASTNode) {
+    const {minify} = this.bundler;
+    if (minify.js) {
+      const scriptUrl =
+          appendUrlPath(this.assignedBundle.url, '_inline_script.js') as
+          ResolvedUrl;
+      for (const script of dom5.queryAll(ast, matchers.inlineScript)) {
+        const minified = await minifyJs(
+            this.bundler, scriptUrl, dom5.getTextContent(script));
+        // Minifying undoes the escaping of the <script> content, so it is
+        // escaped again.
+        dom5.setTextContent(script, encodeString(minified, true));
+      }
+    }
+    if (minify.css) {
+      for (const style of dom5.queryAll(
+               ast,
+               matchers.styleMatcher,
+               undefined,
+               dom5.childNodesIncludeTemplate)) {
+        dom5.setTextContent(style, minifyCss(dom5.getTextContent(style)));
+      }
+    }
+    if (minify.html) {
+      collapseWhitespace(ast);
+    }
+  }
+
+  /**
+   * Moves the content of every inline script into its own file next to the
+   * bundle, named after the bundle and the order of the script in it, and
+   * loads it from there instead, which keeps the order the scripts run in.
+   * Scripts which can't be parsed are left inline with a warning.
+   */
+  private async _externalizeInlineScripts(ast: ASTNode):
+      Promise<DocumentCollection> {
+    const scripts: DocumentCollection = new Map();
+    const bundleUrl = this.assignedBundle.url;
+    const baseName = bundleUrl.substring(bundleUrl.lastIndexOf('/') + 1)
+                         .replace(/\.html$/, '');
+    for (const script of dom5.queryAll(ast, matchers.inlineScript)) {
+      const fileName = `${baseName}.inline-${scripts.size + 1}.js`;
+      const url = this.bundler.analyzer.urlResolver.resolve(
+          bundleUrl, fileName as FileRelativeUrl)!;
+      let document;
+      try {
+        document = await this.bundler.analyzeContents(
+            url, dom5.getTextContent(script));
+      } catch (err) {
+        // Scripts which can't be parsed are left inline, where their hashes
+        // are still recorded.
+        this.assignedBundle.bundle.warnings.push({
+          code: 'could-not-externalize-script',
+          message: `Could not move an inline script to ${fileName}, so it ` +
+              `is left inline: ${err.message}`,
+          severity: Severity.WARNING,
+          url: bundleUrl,
+        });
+        continue;
+      }
+      scripts.set(url, {
+        ast: document.parsedDocument.ast,
+        content: document.parsedDocument.contents,
+        files: [],
+      });
+      dom5.setTextContent(script, '');
+      dom5.setAttribute(script, 'src', fileName);
+    }
+    return scripts;
+  }
+
+  /**
+   * Returns the Content Security Policy hashes of the inline scripts and
+   * styles in the document, including those in templates, without duplicates.
+   */
+  private _getCspHashes(ast: ASTNode): string[] {
+    const inlineCode = dom5.queryAll(
+        ast,
+        dom5.predicates.OR(matchers.inlineScript, matchers.styleMatcher),
+        undefined,
+        dom5.childNodesIncludeTemplate);
+    return [...new Set(
+        inlineCode.map((node) => getCspHash(dom5.getTextContent(node))))];
+  }
+
+  /**
+   * Adds `integrity` attributes to the tags which load other bundles, with the
+   * hashes recorded for those bundles when they were produced, along with
+   * `crossorigin` attributes, without which browsers can't check the
+   * integrity of resources from other origins.
+   */
+  private _addIntegrityAttributes(ast: ASTNode) {
+    const p = dom5.predicates;
+    const loadsBundle = p.OR(
+        p.AND(p.hasTagName('script'), p.hasAttr('src')),
+        p.AND(
+            p.hasTagName('link'),
+            p.hasAttr('href'),
+            p.OR(...['import', 'stylesheet', 'modulepreload', 'preload'].map(
+                (rel) => p.hasSpaceSeparatedAttrValue('rel', rel)))));
+    for (const node of dom5.queryAll(ast, loadsBundle)) {
+      const href =
+          dom5.getAttribute(node, 'src') || dom5.getAttribute(node, 'href')!;
+      const url = this.bundler.analyzer.urlResolver.resolve(
+          this.assignedBundle.url, href as FileRelativeUrl);
+      const bundle = url !== undefined && url !== this.assignedBundle.url &&
+          this.manifest.bundles.get(url);
+      if (!bundle || bundle.integrity === undefined) {
+        continue;
+      }
+      dom5.setAttribute(node, 'integrity', bundle.integrity);
+      if (!dom5.hasAttribute(node, 'crossorigin')) {
+        dom5.setAttribute(node, 'crossorigin', 'anonymous');
+      }
     }
   }
 
+  /**
+   * Injects resource hints at the end of the `<head>` or the start of the
+   * document: `<link rel="modulepreload">` for the ES6 module bundles imported
+   * statically, directly or transitively, by this bundle, which are
+   * `<link rel="preload" as="script">` in output formats other than ES6
+   * modules, and `<link rel="prefetch">` for the bundles only imported on
+   * demand, along with the module bundles they import statically.
+   */
+  private async _injectResourceHints(ast: ASTNode) {
+    const bundleImports =
+        await getBundleImports(this.bundler.analyzer, this.manifest);
+    const addStaticModuleImports =
+        (url: ResolvedUrl, urls: Set<ResolvedUrl>) => {
+          for (const importUrl of [...bundleImports.get(url)!.eager].sort()) {
+            const bundle = this.manifest.bundles.get(importUrl)!;
+            if (bundle.type === 'es6-module' && !urls.has(importUrl)) {
+              urls.add(importUrl);
+              addStaticModuleImports(importUrl, urls);
+            }
+          }
+        };
+    const preloadUrls = new Set<ResolvedUrl>();
+    addStaticModuleImports(this.assignedBundle.url, preloadUrls);
+    const prefetchUrls = new Set<ResolvedUrl>();
+    for (const url of [this.assignedBundle.url, ...preloadUrls]) {
+      for (const lazyUrl of [...bundleImports.get(url)!.lazy].sort()) {
+        prefetchUrls.add(lazyUrl);
+        addStaticModuleImports(lazyUrl, prefetchUrls);
+      }
+    }
+    const hints: ASTNode[] = [];
+    const createHint = (rel: string, url: ResolvedUrl) => {
+      const link = dom5.constructors.element('link');
+      dom5.setAttribute(link, 'rel', rel);
+      dom5.setAttribute(
+          link,
+          'href',
+          this.bundler.analyzer.urlResolver.relative(
+              this.assignedBundle.url, url));
+      return link;
+    };
+    if (this.bundler.preloadModuleBundles) {
+      for (const url of preloadUrls) {
+        if (this.bundler.outputFormat === 'es') {
+          hints.push(createHint('modulepreload', url));
+        } else {
+          const hint = createHint('preload', url);
+          dom5.setAttribute(hint, 'as', 'script');
+          hints.push(hint);
+        }
+      }
+    }
+    if (this.bundler.prefetchLazyBundles) {
+      for (const url of prefetchUrls) {
+        if (url !== this.assignedBundle.url && !preloadUrls.has(url)) {
+          hints.push(createHint('prefetch', url));
+        }
+      }
+    }
+    const head = dom5.query(ast, matchers.head);
+    if (head) {
+      hints.forEach((hint) => dom5.append(head, hint));
+    } else {
+      hints.reverse().forEach((hint) => prepend(ast, hint));
+    }
+  }
+
+  /**
+   * Rewrites the URLs of assets, like images and fonts, referenced from `src`
+   * and `href` attributes, `style` attributes and `<style>` tags.  Assets
+   * referenced from `src` attributes and styles are replaced with `data:` URIs
+   * when they are no larger than the `inlineAssetsMaxBytes` option; other
+   * assets are collected in the bundle when the `collectAssets` option is set.
+   */
+  private async _rewriteAssetUrls(ast: ASTNode) {
+    const p = dom5.predicates;
+    const baseUrls = this._getAssetBaseUrls(ast);
+    const getBaseUrl = (node: ASTNode) =>
+        baseUrls.get(node) || this.assignedBundle.url;
+    const nodes = dom5.queryAll(
+        ast,
+        p.OR(p.hasAttr('src'), p.hasAttr('href'), p.hasAttr('style')),
+        undefined,
+        dom5.childNodesIncludeTemplate);
+    for (const node of nodes) {
+      for (const attr of ['src', 'href']) {
+        const href = dom5.getAttribute(node, attr);
+        if (!href) {
+          continue;
+        }
+        const newHref = await rewriteAssetUrl(
+            this.bundler,
+            this.assignedBundle,
+            href,
+            getBaseUrl(node),
+            attr === 'src');
+        if (newHref !== href) {
+          dom5.setAttribute(node, attr, newHref);
+        }
+      }
+      const style = dom5.getAttribute(node, 'style');
+      if (style) {
+        dom5.setAttribute(
+            node,
+            'style',
+            await rewriteCssAssetUrls(
+                this.bundler, this.assignedBundle, style, getBaseUrl(node)));
+      }
+    }
+    const styleNodes = dom5.queryAll(
+        ast, matchers.styleMatcher, undefined, dom5.childNodesIncludeTemplate);
+    for (const node of styleNodes) {
+      const styleText = dom5.getTextContent(node);
+      const newStyleText = await rewriteCssAssetUrls(
+          this.bundler, this.assignedBundle, styleText, getBaseUrl(node));
+      if (newStyleText !== styleText) {
+        dom5.setTextContent(node, newStyleText);
+      }
+    }
+  }
+
+  /**
+   * Returns the base URLs of the nodes in `<dom-module>` tags with an
+   * `assetpath`, which Polymer resolves URLs in their templates against
+   * unless URLs in templates are rewritten.
+   */
+  private _getAssetBaseUrls(ast: ASTNode): Map<ASTNode, ResolvedUrl> {
+    const baseUrls = new Map<ASTNode, ResolvedUrl>();
+    if (this.bundler.rewriteUrlsInTemplates) {
+      return baseUrls;
+    }
+    const domModules = dom5.queryAll(
+        ast,
+        dom5.predicates.AND(
+            dom5.predicates.hasTagName('dom-module'),
+            dom5.predicates.hasAttr('assetpath')),
+        undefined,
+        dom5.childNodesIncludeTemplate);
+    for (const domModule of domModules) {
+      const assetPath = dom5.getAttribute(domModule, 'assetpath')!;
+      const baseUrl = this.bundler.analyzer.urlResolver.resolve(
+          this.assignedBundle.url, assetPath as FileRelativeUrl);
+      if (!baseUrl) {
+        continue;
+      }
+      const nodes = dom5.queryAll(
+          domModule, () => true, undefined, dom5.childNodesIncludeTemplate);
+      for (const node of nodes) {
+        baseUrls.set(node, baseUrl);
+      }
+    }
+    return baseUrls;
+  }
+
   /**
    * Inlines the contents of the document returned by the script tag's src URL
    * into the script tag content and removes the src attribute.
@@ -486,9 +929,13 @@ export class HtmlBundler {
     if (resolvedImportUrl === undefined) {
       return;
     }
-    if (this.bundler.excludes.some(
-            (e) => resolvedImportUrl === e ||
-                resolvedImportUrl.startsWith(ensureTrailingSlash(e)))) {
+    if (this.bundler.isExcluded(resolvedImportUrl, this.assignedBundle.url)) {
+      return;
+    }
+    // Scripts pointing at classic script bundles are left for the browser to
+    // load.
+    const scriptBundle = this.manifest.bundles.get(resolvedImportUrl);
+    if (scriptBundle && scriptBundle.type === 'classic-script') {
       return;
     }
     const scriptImport = find(
@@ -549,9 +996,12 @@ export class HtmlBundler {
     if (resolvedImportUrl === undefined) {
       return;
     }
-    if (this.bundler.excludes.some(
-            (e) => resolvedImportUrl === e ||
-                resolvedImportUrl.startsWith(ensureTrailingSlash(e)))) {
+    if (this.bundler.isExcluded(resolvedImportUrl, this.assignedBundle.url)) {
+      return;
+    }
+    // Links to CSS bundles are left for the browser to load.
+    const cssBundle = this.manifest.bundles.get(resolvedImportUrl);
+    if (cssBundle && cssBundle.type === 'css') {
       return;
     }
     const stylesheetImport =  // HACK(usergenic): clang-format workaround
@@ -590,8 +1040,12 @@ export class HtmlBundler {
             this.bundler.analyzer.urlResolver.resolve(newBaseUrl, assetPath)!;
       }
     }
-    const resolvedStylesheetContent = this._rewriteCssTextBaseUrl(
-        stylesheetContent, resolvedImportUrl, newBaseUrl);
+    const resolvedStylesheetContent = await inlineCssImports(
+        this.bundler,
+        this.assignedBundle,
+        stylesheetContent,
+        resolvedImportUrl,
+        newBaseUrl);
     const styleNode = dom5.constructors.element('style');
     if (media) {
       dom5.setAttribute(styleNode, 'media', media);
@@ -731,6 +1185,25 @@ export class HtmlBundler {
         await this.bundler.analyzer.analyze([this.assignedBundle.url]);
     const document = getAnalysisDocument(analysis, this.assignedBundle.url);
     const ast = clone(document.parsedDocument.ast);
+    if (this.bundler.sourcemaps) {
+      // Inline module scripts of the bundle's own document will be rolled up
+      // later, so we need their source maps relative to the original document
+      // now, before anything moves.
+      const reparsedDoc = new ParsedHtmlDocument({
+        url: this.assignedBundle.url,
+        baseUrl: document.parsedDocument.baseUrl,
+        contents: document.parsedDocument.contents,
+        ast,
+        isInline: false,
+        locationOffset: undefined,
+        astNode: undefined,
+      });
+      await this._addOrUpdateSourcemapsForInlineScripts(
+          document,
+          reparsedDoc,
+          this.assignedBundle.url,
+          matchers.inlineModuleScript);
+    }
     this._moveOrderedImperativesFromHeadIntoHiddenDiv(ast);
     this._moveUnhiddenHtmlImportsIntoHiddenDiv(ast);
     dom5.removeFakeRootElements(ast);
@@ -804,22 +1277,6 @@ export class HtmlBundler {
     }
   }
 
-  /**
-   * Given a string of CSS, return a version where all occurrences of URLs,
-   * have been rewritten based on the relationship of the old base URL to the
-   * new base URL.
-   */
-  private _rewriteCssTextBaseUrl(
-      cssText: string,
-      oldBaseUrl: ResolvedUrl,
-      newBaseUrl: ResolvedUrl): string {
-    return cssText.replace(constants.URL, (match) => {
-      let path = match.replace(/["']/g, '').slice(4, -1);
-      path = rewriteHrefBaseUrl(path, oldBaseUrl, newBaseUrl);
-      return 'url("' + path + '")';
-    });
-  }
-
   /**
    * Find all element attributes which express URLs and rewrite them so they
    * are based on the relationship of the old base URL to the new base URL.
@@ -840,8 +1297,7 @@ export class HtmlBundler {
         if (attrValue && !isTemplatedUrl(attrValue)) {
           let relUrl: string;
           if (attr === 'style') {
-            relUrl =
-                this._rewriteCssTextBaseUrl(attrValue, oldBaseUrl, newBaseUrl);
+            relUrl = rewriteCssTextBaseUrl(attrValue, oldBaseUrl, newBaseUrl);
           } else {
             relUrl = rewriteHrefBaseUrl(attrValue, oldBaseUrl, newBaseUrl);
           }
@@ -889,8 +1345,7 @@ export class HtmlBundler {
 
     for (const node of styleNodes) {
       let styleText = dom5.getTextContent(node);
-      styleText =
-          this._rewriteCssTextBaseUrl(styleText, oldBaseUrl, newBaseUrl);
+      styleText = rewriteCssTextBaseUrl(styleText, oldBaseUrl, newBaseUrl);
       dom5.setTextContent(node, styleText);
     }
   }
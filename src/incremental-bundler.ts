@@ -0,0 +1,157 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+import {ResolvedUrl} from 'polymer-analyzer';
+
+import {Bundle, BundleManifest} from './bundle-manifest';
+import {Bundler, BundleResult} from './bundler';
+import {DepsIndexCache, invalidateDepsIndexCache} from './deps-index';
+import {setEquals} from './utils';
+
+/**
+ * The result of an incremental build: the complete manifest of all bundles as
+ * bundled, and the documents of the bundles which were produced by the build.
+ */
+export interface IncrementalBundleResult extends BundleResult {
+  // The manifest generated for the entrypoints, before bundling.
+  generatedManifest: BundleManifest;
+}
+
+/**
+ * Bundles a set of entrypoints and, as files change, bundles them again doing
+ * only the work affected by the changes: only dependencies of entrypoints
+ * which depend on changed files are looked up again, and only bundles which
+ * include changed files are produced again, unless the changes alter which
+ * bundles there are.
+ */
+export class IncrementalBundler {
+  private _depsIndexCache: DepsIndexCache = new Map();
+  private _generatedManifest: BundleManifest|undefined;
+  private _bundledManifest: BundleManifest|undefined;
+
+  constructor(public bundler: Bundler, public entrypoints: ResolvedUrl[]) {
+  }
+
+  /**
+   * Bundles all bundles of the entrypoints.
+   */
+  async build(): Promise<IncrementalBundleResult> {
+    this._depsIndexCache.clear();
+    const generatedManifest = await this.bundler.generateManifest(
+        this.entrypoints, this._depsIndexCache);
+    const {manifest, documents, budgetReport, warnings} =
+        await this.bundler.bundle(generatedManifest);
+    this._generatedManifest = generatedManifest;
+    this._bundledManifest = manifest;
+    return {generatedManifest, manifest, documents, budgetReport, warnings};
+  }
+
+  /**
+   * Bundles the bundles affected by changes to the given URLs.  The documents
+   * of the result only include those bundles, and its warnings only those
+   * found generating the manifest and producing those bundles.
+   */
+  async rebuild(changedUrls: ResolvedUrl[]): Promise<IncrementalBundleResult> {
+    const previousGeneratedManifest = this._generatedManifest;
+    const previousBundledManifest = this._bundledManifest;
+    if (!previousGeneratedManifest || !previousBundledManifest) {
+      return this.build();
+    }
+    const changed = new Set(changedUrls);
+    await this.bundler.analyzer.filesChanged(changedUrls);
+    invalidateDepsIndexCache(this._depsIndexCache, changed);
+    const generatedManifest = await this.bundler.generateManifest(
+        this.entrypoints, this._depsIndexCache);
+
+    // When the bundles themselves change, the contents of any bundle may
+    // change, e.g. to import from a different bundle, so all are produced
+    // again.  Likewise, bundle URLs and integrity hashes based on content
+    // change whenever the bundles they depend on change.
+    const isFullRebuild = this.bundler.contentUrlMapper !== undefined ||
+        this.bundler.sri ||
+        !manifestDefinitionEquals(previousGeneratedManifest, generatedManifest);
+    const bundleUrls: ResolvedUrl[] = [];
+    for (const [url, bundle] of generatedManifest.bundles) {
+      const previousBundle = previousBundledManifest.bundles.get(url)!;
+      if (isFullRebuild ||
+          [...getBundledUrls(previousBundle)].some((url) => changed.has(url))) {
+        bundleUrls.push(url);
+      }
+      if (!isFullRebuild) {
+        // Keep the names given to exports of ES6 modules, which bundles that
+        // are not produced again may import.
+        bundle.bundledExports = new Map([...previousBundle.bundledExports].map(
+            ([url, names]):
+                [ResolvedUrl, Map<string, string>] => [url, new Map(names)]));
+      }
+    }
+
+    const {manifest, documents, budgetReport, warnings} =
+        await this.bundler.bundle(generatedManifest, bundleUrls);
+    // Bundles which were not produced again keep what was recorded while
+    // bundling them before.
+    for (const [url, bundle] of manifest.bundles) {
+      if (bundleUrls.includes(url)) {
+        continue;
+      }
+      const previousBundle = previousBundledManifest.bundles.get(url)!;
+      bundle.stripImports = previousBundle.stripImports;
+      bundle.missingImports = previousBundle.missingImports;
+      bundle.inlinedHtmlImports = previousBundle.inlinedHtmlImports;
+      bundle.inlinedScripts = previousBundle.inlinedScripts;
+      bundle.inlinedStyles = previousBundle.inlinedStyles;
+      bundle.inlinedAssets = previousBundle.inlinedAssets;
+      bundle.assets = previousBundle.assets;
+      bundle.warnings = previousBundle.warnings;
+      bundle.cspHashes = previousBundle.cspHashes;
+    }
+    this._generatedManifest = generatedManifest;
+    this._bundledManifest = manifest;
+    return {generatedManifest, manifest, documents, budgetReport, warnings};
+  }
+}
+
+/**
+ * Returns true if the manifests have bundles with the same URLs, types,
+ * entrypoints and files.
+ */
+function manifestDefinitionEquals(
+    a: BundleManifest, b: BundleManifest): boolean {
+  if (a.bundles.size !== b.bundles.size) {
+    return false;
+  }
+  for (const [url, bundleA] of a.bundles) {
+    const bundleB = b.bundles.get(url);
+    if (!bundleB || bundleA.type !== bundleB.type ||
+        !setEquals(bundleA.entrypoints, bundleB.entrypoints) ||
+        !setEquals(bundleA.files, bundleB.files)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Returns the URLs of all files which contributed to a bundled bundle.
+ */
+function getBundledUrls(bundle: Bundle): Set<ResolvedUrl> {
+  return new Set([
+    ...bundle.files,
+    ...bundle.inlinedHtmlImports,
+    ...bundle.inlinedScripts,
+    ...bundle.inlinedStyles,
+    ...bundle.inlinedAssets,
+    ...bundle.assets.keys(),
+    ...bundle.missingImports,
+  ]);
+}
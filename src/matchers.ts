@@ -71,6 +71,12 @@ export const inlineNonModuleScript: Matcher =
 export const externalModuleScript: Matcher =
     predicates.AND(predicates.hasAttr('src'), moduleScript);
 
+export const inlineModuleScript: Matcher =
+    predicates.AND(predicates.NOT(predicates.hasAttr('src')), moduleScript);
+
+export const inlineScript: Matcher =
+    predicates.OR(inlineNonModuleScript, inlineModuleScript);
+
 export const eagerHtmlImport: Matcher = predicates.AND(
     predicates.hasTagName('link'),
     predicates.hasAttrValue('rel', 'import'),
@@ -0,0 +1,202 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+import traverse, {NodePath} from 'babel-traverse';
+import * as babel from 'babel-types';
+import * as dom5 from 'dom5';
+import {ASTNode} from 'parse5';
+import {ResolvedUrl} from 'polymer-analyzer';
+import {nodeType, Parser, Rule, Stringifier} from 'shady-css-parser';
+import {RawSourceMap} from 'source-map';
+
+import {serialize} from './babel-utils';
+import {Bundler} from './bundler';
+import {appendInlineSourcemapComment, composeSourcemaps, getExistingSourcemap} from './source-map';
+
+export interface MinifyOptions {
+  // Collapse runs of whitespace in the text of HTML bundles.
+  html?: boolean;
+  // Minify stylesheets and `<style>` elements.
+  css?: boolean;
+  // Minify scripts and ES6 modules, without renaming anything.
+  js?: boolean;
+  // Minify the markup and styles in the `html` and `css` tagged templates of
+  // ES6 modules.
+  templates?: boolean;
+}
+
+// HTML whitespace, which unlike `\s` does not include non-breaking spaces.
+const htmlWhitespace = /[ \t\n\f\r]+/g;
+
+// Elements whose text is kept as it is when collapsing whitespace.
+const preformattedTagNames = new Set(['pre', 'textarea', 'script', 'style']);
+
+/**
+ * Collapses every run of whitespace in the text nodes of the document,
+ * including those in templates, into a single space, except in preformatted
+ * elements.  Whitespace between the elements of `<head>`, which is never
+ * rendered, is removed.
+ */
+export function collapseWhitespace(ast: ASTNode) {
+  const isCollapsible = (node: ASTNode) => dom5.isTextNode(node) &&
+      !dom5.nodeWalkAncestors(
+          node, (ancestor) => preformattedTagNames.has(ancestor.tagName || ''));
+  for (const node of dom5.nodeWalkAll(
+           ast, isCollapsible, undefined, dom5.childNodesIncludeTemplate)) {
+    const text = dom5.getTextContent(node).replace(htmlWhitespace, ' ');
+    if (text === ' ' && node.parentNode!.tagName === 'head') {
+      dom5.remove(node);
+    } else {
+      dom5.setTextContent(node, text);
+    }
+  }
+}
+
+// Expressions are replaced by this marker while minifying templates, and
+// comments can't span them.
+const expressionMarker = '\0';
+const htmlComment = /<!--[^\0]*?-->/g;
+const cssComment = /\/\*[^\0]*?\*\//g;
+const styleElement = /(<style[^>]*>)([^]*?)(<\/style>)/g;
+const preformattedElement = /<(pre|textarea)[\s>]/;
+
+// Tags of templates, which rollup may have renamed, e.g. to `html$1`.
+const templateTag = /^(html|css)(\$\d+)?$/;
+
+/**
+ * Minifies the static parts of `html` and `css` tagged templates, including
+ * those tagged by members, like `Polymer.html`, by collapsing whitespace and
+ * removing comments other than license comments, including those in the
+ * `<style>` elements of markup.  Expressions are left as they are, and so are
+ * comments spanning them.  Markup with preformatted elements is left as it
+ * is.
+ */
+export function minifyTaggedTemplates(node: babel.Node) {
+  traverse(node, {
+    noScope: true,
+    TaggedTemplateExpression: {
+      enter(path: NodePath) {
+        const {tag, quasi} = path.node as babel.TaggedTemplateExpression;
+        const tagName = babel.isIdentifier(tag) ?
+            tag.name :
+            babel.isMemberExpression(tag) && babel.isIdentifier(tag.property) ?
+            tag.property.name :
+            '';
+        const match = tagName.match(templateTag);
+        if (!match) {
+          return;
+        }
+        const isHtml = match[1] === 'html';
+        const raw = quasi.quasis.map((element) => element.value.raw);
+        if (isHtml && raw.some((text) => preformattedElement.test(text))) {
+          return;
+        }
+        const minify = (parts: string[]) => {
+          const text = parts.join(expressionMarker);
+          return (isHtml ? stripHtmlComments(text) : stripCssComments(text))
+              .replace(htmlWhitespace, ' ')
+              .split(expressionMarker);
+        };
+        const minifiedRaw = minify(raw);
+        const cooked = quasi.quasis.map((element) => element.value.cooked);
+        const minifiedCooked =
+            cooked.every((text) => typeof text === 'string') ? minify(cooked) :
+                                                               cooked;
+        quasi.quasis.forEach((element, i) => {
+          element.value.raw = minifiedRaw[i];
+          element.value.cooked = minifiedCooked[i];
+        });
+      }
+    }
+  });
+}
+
+function stripHtmlComments(html: string): string {
+  return html.replace(htmlComment, keepLicenseComment)
+      .replace(
+          styleElement,
+          (_, open: string, css: string, close: string) =>
+              open + stripCssComments(css) + close);
+}
+
+function stripCssComments(css: string): string {
+  return css.replace(cssComment, keepLicenseComment);
+}
+
+function keepLicenseComment(comment: string): string {
+  return comment.includes('@license') ? comment : '';
+}
+
+/**
+ * Returns the CSS without the whitespace and comments which don't matter,
+ * except license comments.
+ */
+export function minifyCss(css: string): string {
+  const stylesheet = new Parser().parse(css);
+  const minifyRules = (rules: Rule[]): Rule[] => rules.filter((rule) => {
+    switch (rule.type) {
+      case nodeType.comment:
+        return rule.value.indexOf('@license') > -1;
+      case nodeType.ruleset:
+        rule.selector = rule.selector.replace(/\s+/g, ' ').trim();
+        rule.rulelist.rules = minifyRules(rule.rulelist.rules);
+        break;
+      case nodeType.atRule:
+        if (rule.rulelist) {
+          rule.rulelist.rules = minifyRules(rule.rulelist.rules);
+        }
+        break;
+      case nodeType.declaration:
+        rule.name = rule.name.trim();
+        if (rule.value && rule.value.type === nodeType.rulelist) {
+          rule.value.rules = minifyRules(rule.value.rules);
+        }
+        break;
+    }
+    return true;
+  });
+  stylesheet.rules = minifyRules(stylesheet.rules);
+  return new Stringifier().stringify(stylesheet);
+}
+
+/**
+ * Returns the JavaScript at the URL without the whitespace and comments which
+ * don't matter, except license comments.  When the code has a source map, it
+ * is updated to map the minified code and appended inline.  Code which can't
+ * be parsed is returned as it is.
+ */
+export async function minifyJs(
+    bundler: Bundler, url: ResolvedUrl, code: string): Promise<string> {
+  let ast;
+  try {
+    ast = (await bundler.analyzeContents(url, code)).parsedDocument.ast;
+  } catch (err) {
+    return code;
+  }
+  let sourcemap: RawSourceMap|null = null;
+  if (bundler.sourcemaps) {
+    try {
+      sourcemap = await getExistingSourcemap(bundler.analyzer, url, code);
+    } catch (err) {
+      // Without its source map, the code is minified like any other.
+    }
+  }
+  if (!sourcemap) {
+    return serialize(ast, undefined, true).code;
+  }
+  const minified = serialize(ast, url, true);
+  return appendInlineSourcemapComment(
+      minified.code,
+      composeSourcemaps(
+          minified.map as RawSourceMap, new Map([[url, sourcemap]])));
+}
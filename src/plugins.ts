@@ -0,0 +1,132 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+import {PackageRelativeUrl, ResolvedUrl, UrlLoader} from 'polymer-analyzer';
+
+import {BundleManifest} from './bundle-manifest';
+import {BundledDocument} from './document-collection';
+
+/**
+ * Hooks into the stages of bundling, to support sources the analyzer can't
+ * load verbatim, like templated HTML, without a separate build step.  When
+ * several plugins implement a hook, they run in the order they are given, and
+ * each transform hook gets the result of the previous one.  Every hook may
+ * return a promise.
+ */
+export interface BundlerPlugin {
+  // Transforms the contents of a source file as it is loaded, before it is
+  // analyzed and bundled, including text assets like SVG images but not
+  // binary assets.  Returning undefined keeps the contents as they are.
+  transformSource?
+      (url: ResolvedUrl, contents: string): MaybePromise<string|undefined>;
+
+  // Resolves the specifier of an import of an ES6 module, both when finding
+  // the dependencies of entrypoints and when rolling up the module into a
+  // bundle.  Returning undefined leaves it to the next plugin, and eventually
+  // to the analyzer's resolution, while returning false keeps the import as it
+  // is.
+  resolveId?(importee: string, importer: ResolvedUrl):
+      MaybePromise<ResolvedUrl|false|undefined>;
+
+  // Transforms an HTML bundle once it is produced.  Returning undefined keeps
+  // the document as it is.
+  transformBundle?(url: ResolvedUrl, document: BundledDocument):
+      MaybePromise<BundledDocument|undefined>;
+
+  // Transforms the manifest once the bundles are generated, before they are
+  // produced.  Returning undefined keeps the manifest as it is.
+  generateManifest?
+      (manifest: BundleManifest): MaybePromise<BundleManifest|undefined>;
+}
+
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * A URL loader which loads files with another loader and runs the
+ * `transformSource` hooks of the plugins on their contents.
+ */
+export class TransformingUrlLoader implements UrlLoader {
+  constructor(private _loader: UrlLoader, private _plugins: BundlerPlugin[]) {
+  }
+
+  canLoad(url: ResolvedUrl): boolean {
+    return this._loader.canLoad(url);
+  }
+
+  async load(url: ResolvedUrl): Promise<string> {
+    let contents = await this._loader.load(url);
+    for (const plugin of this._plugins) {
+      if (plugin.transformSource) {
+        const transformed = await plugin.transformSource(url, contents);
+        if (transformed !== undefined) {
+          contents = transformed;
+        }
+      }
+    }
+    return contents;
+  }
+
+  async readDirectory(url: ResolvedUrl, deep?: boolean):
+      Promise<PackageRelativeUrl[]> {
+    if (!this._loader.readDirectory) {
+      return [];
+    }
+    return this._loader.readDirectory(url, deep);
+  }
+}
+
+/**
+ * Returns the URL the first plugin resolving the import specifier resolves
+ * it to, false if it is kept as it is, or undefined if none resolves it.
+ */
+export async function resolveImport(
+    plugins: BundlerPlugin[], importee: string, importer: ResolvedUrl):
+    Promise<ResolvedUrl|false|undefined> {
+  for (const plugin of plugins) {
+    if (plugin.resolveId) {
+      const resolved = await plugin.resolveId(importee, importer);
+      if (resolved !== undefined) {
+        return resolved;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Runs the `transformBundle` hooks of the plugins on the bundled document.
+ */
+export async function transformBundle(
+    plugins: BundlerPlugin[], url: ResolvedUrl, document: BundledDocument):
+    Promise<BundledDocument> {
+  for (const plugin of plugins) {
+    if (plugin.transformBundle) {
+      document = await plugin.transformBundle(url, document) || document;
+    }
+  }
+  return document;
+}
+
+/**
+ * Runs the `generateManifest` hooks of the plugins on the manifest.
+ */
+export async function transformManifest(
+    plugins: BundlerPlugin[],
+    manifest: BundleManifest): Promise<BundleManifest> {
+  for (const plugin of plugins) {
+    if (plugin.generateManifest) {
+      manifest = await plugin.generateManifest(manifest) || manifest;
+    }
+  }
+  return manifest;
+}
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+import {Analyzer, ResolvedUrl} from 'polymer-analyzer';
+
+import {BundleManifest, BundleType} from './bundle-manifest';
+import {getBundleImports} from './bundle-order';
+
+/**
+ * The kinds of resources a server can push, as used by the `as` attribute of
+ * `<link rel="preload">`.
+ */
+export type PushResourceType = 'document' | 'script' | 'style';
+
+/**
+ * A push manifest, as read by HTTP/2 servers like `http2-push-manifest`,
+ * maps package relative entrypoint bundle URLs to the package relative URLs
+ * of the resources to push along with them.
+ */
+export interface PushManifest {
+  [url: string]: {[url: string]: {type: PushResourceType, weight: number}};
+}
+
+const pushResourceTypes = new Map<BundleType, PushResourceType>([
+  ['html-fragment', 'document'],
+  ['es6-module', 'script'],
+  ['classic-script', 'script'],
+  ['css', 'style'],
+]);
+
+/**
+ * Returns the push manifest for the bundles at the given URLs, which default
+ * to all bundles of the manifest.  Each bundle containing an entrypoint maps
+ * to the bundles it loads eagerly, directly or transitively.  Bundles only
+ * loaded on demand, by dynamic `import()`s and `<link rel="lazy-import">`s,
+ * are left out, as they may never be needed.
+ */
+export async function generatePushManifest(
+    analyzer: Analyzer,
+    manifest: BundleManifest,
+    bundleUrls: Iterable<ResolvedUrl> =
+        manifest.bundles.keys()): Promise<PushManifest> {
+  const urls = new Set(bundleUrls);
+  const bundleImports = await getBundleImports(analyzer, manifest);
+  const pushManifest: PushManifest = {};
+  for (const url of [...urls].sort()) {
+    const bundle = manifest.bundles.get(url);
+    if (!bundle ||
+        ![...bundle.entrypoints].some(
+            (entrypoint) => bundle.files.has(entrypoint))) {
+      continue;
+    }
+    const resources: PushManifest[string] = {};
+    const visited = new Set<ResolvedUrl>([url]);
+    const visit = (bundleUrl: ResolvedUrl) => {
+      for (const importUrl of [...bundleImports.get(bundleUrl)!.eager].sort()) {
+        if (visited.has(importUrl) || !urls.has(importUrl)) {
+          continue;
+        }
+        visited.add(importUrl);
+        const type =
+            pushResourceTypes.get(manifest.bundles.get(importUrl)!.type)!;
+        resources[analyzer.urlResolver.relative(importUrl)] = {type, weight: 1};
+        visit(importUrl);
+      }
+    };
+    visit(url);
+    pushManifest[analyzer.urlResolver.relative(url)] = resources;
+  }
+  return pushManifest;
+}
@@ -17,7 +17,7 @@ import * as espree from 'espree';
 import * as parse5 from 'parse5';
 import {Analyzer, Document, ParsedHtmlDocument, ResolvedUrl} from 'polymer-analyzer';
 import {AnalysisContext} from 'polymer-analyzer/lib/core/analysis-context';
-import {RawSourceMap, SourceMapConsumer, SourceMapGenerator} from 'source-map';
+import {Mapping, RawSourceMap, SourceMapConsumer, SourceMapGenerator} from 'source-map';
 import * as urlLib from 'url';
 
 import * as matchers from './matchers';
@@ -26,6 +26,10 @@ import * as parse5Utils from './parse5-utils';
 const inlineSourcemapPrefix =
     '\n//# sourceMappingURL=data:application/json;charset=utf8;base64,';
 
+// Separates concatenated scripts, so that a script which does not end its
+// last statement, or ends with a line comment, is not continued by the
+// script following it, as in `var a = b` followed by `(function() {})()`.
+export const scriptSeparator = '\n;\n';
 const sourceMappingUrlExpr = /\n\/\/# sourceMappingURL=(.*)\n?/;
 const inlineSourceMapExpr =
     /^data:application\/json;(charset=[^;]+;)?base64,([a-zA-Z0-9+\/=]+)$/;
@@ -40,6 +44,26 @@ function rawSourceMapToBase64String(sourcemap: RawSourceMap) {
   return Buffer.from(JSON.stringify(sourcemap), 'utf8').toString('base64');
 }
 
+/**
+ * Returns a source map produced by another tool, like rollup, whose typings
+ * declare the `version` of source maps as a string, as a RawSourceMap, after
+ * checking that it is a version 3 source map.
+ */
+export function toRawSourceMap(sourcemap: {
+  version: number | string,
+  file: string,
+  sources: string[],
+  sourcesContent?: string[],
+  names: string[],
+  mappings: string,
+}): RawSourceMap {
+  if (Number(sourcemap.version) !== 3) {
+    throw new Error(`Unsupported source map version ${sourcemap.version}.`);
+  }
+  const {file, sources, sourcesContent, names, mappings} = sourcemap;
+  return {version: 3, file, sources, sourcesContent, names, mappings};
+}
+
 /**
  * Creates an identity source map from JS script content. Can offset original
  * line/column data for inline script elements.
@@ -76,29 +100,35 @@ function createJsIdentitySourcemap(
   return generator.toJSON();
 }
 
-function offsetSourceMap(
+/**
+ * Shifts the generated locations of all mappings in the source map by the
+ * given line and first-line character offsets.
+ */
+export function offsetSourceMap(
     sourcemap: RawSourceMap, lineOffset: number, firstLineCharOffset: number) {
   const consumer = new SourceMapConsumer(sourcemap);
   const generator = new SourceMapGenerator();
 
   consumer.eachMapping(mapping => {
-    const newMapping: any = {
-      source: mapping.source,
-      generated: {
-        line: mapping.generatedLine + lineOffset,
-        column: mapping.generatedColumn +
-            (mapping.generatedLine === 1 ? firstLineCharOffset : 0)
-      }
+    const generated = {
+      line: mapping.generatedLine + lineOffset,
+      column: mapping.generatedColumn +
+          (mapping.generatedLine === 1 ? firstLineCharOffset : 0)
     };
 
-    if (typeof mapping.originalLine === 'number' &&
-        typeof mapping.originalColumn === 'number') {
-      newMapping.original = {
-        line: mapping.originalLine,
-        column: mapping.originalColumn
-      };
+    if (typeof mapping.originalLine !== 'number' ||
+        typeof mapping.originalColumn !== 'number') {
+      // Generated code which maps to no source has a mapping without an
+      // original position, which the `Mapping` type does not allow for.
+      generator.addMapping({generated} as Mapping);
+      return;
     }
 
+    const newMapping: Mapping = {
+      source: mapping.source,
+      original: {line: mapping.originalLine, column: mapping.originalColumn},
+      generated,
+    };
     if (mapping.name) {
       newMapping.name = mapping.name;
     }
@@ -109,6 +139,106 @@ function offsetSourceMap(
   return generator.toJSON();
 }
 
+/**
+ * Traces every mapping of the source map through the source maps of its
+ * sources, given as a map of source URL to source map, producing a single
+ * source map from the generated code to the original sources.  Mappings to a
+ * source which has an upstream source map, but which can not be traced
+ * through it, are dropped.
+ */
+export function composeSourcemaps(
+    sourcemap: RawSourceMap,
+    upstreamSourcemaps: Map<string, RawSourceMap>): RawSourceMap {
+  const consumer = new SourceMapConsumer(sourcemap);
+  const upstreamConsumers = new Map<string, SourceMapConsumer>();
+  for (const [source, upstreamSourcemap] of upstreamSourcemaps) {
+    upstreamConsumers.set(source, new SourceMapConsumer(upstreamSourcemap));
+  }
+  const generator = new SourceMapGenerator({file: sourcemap.file});
+
+  consumer.eachMapping(mapping => {
+    if (typeof mapping.originalLine !== 'number' ||
+        typeof mapping.originalColumn !== 'number') {
+      return;
+    }
+    let source = mapping.source;
+    let original = {line: mapping.originalLine, column: mapping.originalColumn};
+    let name = mapping.name;
+    const upstreamConsumer = upstreamConsumers.get(mapping.source);
+    if (upstreamConsumer) {
+      const position = upstreamConsumer.originalPositionFor(original);
+      if (position.source === null) {
+        return;
+      }
+      source = position.source;
+      original = {line: position.line!, column: position.column!};
+      name = name && (position.name || name);
+    }
+
+    const newMapping: Mapping = {
+      source,
+      original,
+      generated: {line: mapping.generatedLine, column: mapping.generatedColumn},
+    };
+    if (name) {
+      newMapping.name = name;
+    }
+    generator.addMapping(newMapping);
+  });
+
+  return generator.toJSON();
+}
+
+/**
+ * Appends an inline source map comment to the JavaScript content.
+ */
+export function appendInlineSourcemapComment(
+    content: string, sourcemap: RawSourceMap): string {
+  return content + inlineSourcemapPrefix +
+      rawSourceMapToBase64String(sourcemap) + '\n';
+}
+
+/**
+ * Concatenates the scripts in order, separated by `scriptSeparator`, and
+ * returns the code along with a source map combining the existing source maps
+ * of the scripts, or identity source maps for scripts which have none.  The
+ * source map comments of the scripts are removed.
+ */
+export async function concatenateScripts(
+    analyzer: Analyzer, scripts: Array<{url: ResolvedUrl, content: string}>):
+    Promise<{code: string, map: RawSourceMap}> {
+  const generator = new SourceMapGenerator();
+  const codes: string[] = [];
+  let lineOffset = 0;
+  for (const {url, content} of scripts) {
+    const sourcemap = await getExistingSourcemap(analyzer, url, content) ||
+        createJsIdentitySourcemap(url, content, 0, 0);
+    const code = content.replace(sourceMappingUrlExpr, '\n');
+    const consumer = new SourceMapConsumer(sourcemap);
+    consumer.eachMapping(mapping => {
+      if (typeof mapping.originalLine !== 'number' ||
+          typeof mapping.originalColumn !== 'number') {
+        return;
+      }
+      const newMapping: Mapping = {
+        source: mapping.source,
+        original: {line: mapping.originalLine, column: mapping.originalColumn},
+        generated: {
+          line: mapping.generatedLine + lineOffset,
+          column: mapping.generatedColumn
+        },
+      };
+      if (mapping.name) {
+        newMapping.name = mapping.name;
+      }
+      generator.addMapping(newMapping);
+    });
+    codes.push(code);
+    lineOffset += (code + scriptSeparator).split('\n').length - 1;
+  }
+  return {code: codes.join(scriptSeparator), map: generator.toJSON()};
+}
+
 export async function getExistingSourcemap(
     analyzer: Analyzer, sourceUrl: string, sourceContent: string) {
   const sourceMappingUrlParts = sourceContent.match(sourceMappingUrlExpr);
@@ -218,7 +348,7 @@ export function updateSourcemapLocations(
     astNode: undefined,
   });
 
-  const inlineScripts = dom5.queryAll(ast, matchers.nonModuleScript);
+  const inlineScripts = dom5.queryAll(ast, matchers.inlineScript);
   inlineScripts.forEach(script => {
     let content = dom5.getTextContent(script);
 
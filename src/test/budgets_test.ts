@@ -0,0 +1,130 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+/// <reference path="../../node_modules/@types/chai/index.d.ts" />
+/// <reference path="../../node_modules/@types/node/index.d.ts" />
+/// <reference path="../../node_modules/@types/mocha/index.d.ts" />
+import {assert} from 'chai';
+import * as zlib from 'zlib';
+
+import {formatBudgetReport} from '../budgets';
+import {Bundler} from '../bundler';
+
+import {inMemoryAnalyzer} from './test-utils';
+
+suite('Budgets', () => {
+  const analyzer = inMemoryAnalyzer({
+    'a.js': `
+      import {c} from './c.js';
+      console.log('a', c);
+    `,
+    'b.js': `
+      import {c} from './c.js';
+      console.log('b', c);
+    `,
+    'c.js': `
+      export const c = 'a rather long string to make c the largest bundle';
+    `,
+    'page.html': `
+      <script type="module">
+        import {c} from './c.js';
+        console.log('page', c);
+      </script>
+    `,
+  });
+  const [aUrl, bUrl, sharedUrl] = ['a.js', 'b.js', 'shared_bundle_1.js'].map(
+      (url) => analyzer.resolveUrl(url)!);
+
+  const bundle = async (budgets: {}) => {
+    const bundler = new Bundler({analyzer, budgets});
+    return bundler.bundle(await bundler.generateManifest([aUrl, bUrl]));
+  };
+
+  test('measures bundles and the bundles loaded by entrypoints', async () => {
+    const {documents, budgetReport} = await bundle({});
+    const sizeOf = (url: string) => {
+      const content = documents.get(url as any)!.content;
+      return {
+        bytes: Buffer.byteLength(content),
+        gzipBytes: zlib.gzipSync(content).length,
+      };
+    };
+    assert.deepEqual(
+        budgetReport!.bundles,
+        [aUrl, bUrl, sharedUrl].map(
+            (url) => Object.assign({url}, sizeOf(url))));
+    assert.deepEqual(budgetReport!.entrypoints.map((e) => e.url), [aUrl, bUrl]);
+    const [aEntrypoint] = budgetReport!.entrypoints;
+    assert.deepEqual(aEntrypoint.bundles, [aUrl, sharedUrl]);
+    assert.equal(
+        aEntrypoint.bytes, sizeOf(aUrl).bytes + sizeOf(sharedUrl).bytes);
+    assert.equal(
+        aEntrypoint.gzipBytes,
+        sizeOf(aUrl).gzipBytes + sizeOf(sharedUrl).gzipBytes);
+    assert.deepEqual(budgetReport!.exceeded, []);
+  });
+
+  test('measures the bundles imported by module scripts', async () => {
+    const pageUrl = analyzer.resolveUrl('page.html')!;
+    const bundler = new Bundler({analyzer, budgets: {}});
+    const manifest = await bundler.generateManifest([aUrl, pageUrl]);
+    const {budgetReport} = await bundler.bundle(manifest);
+    assert.deepEqual(
+        budgetReport!.entrypoints.map(({url, bundles}) => ({url, bundles})), [
+          {url: aUrl, bundles: [aUrl, sharedUrl]},
+          {url: pageUrl, bundles: [pageUrl, sharedUrl]},
+        ]);
+  });
+
+  test('reports budgets exceeded by matching bundles', async () => {
+    const {budgetReport} = await bundle({
+      bundles: [
+        {pattern: 'shared_*.js', maxBytes: 50},
+        {pattern: '*.js', maxGzipBytes: 1000},
+      ],
+      entrypoints: [{pattern: 'b.js', maxBytes: 100}],
+    });
+    assert.deepEqual(
+        budgetReport!.exceeded.map(
+            ({kind,
+              measurement,
+              budget}) => [kind, measurement.url, budget.pattern]),
+        [
+          ['bundle', sharedUrl, 'shared_*.js'],
+          ['entrypoint', bUrl, 'b.js'],
+        ]);
+    const lines =
+        formatBudgetReport(budgetReport!, analyzer.urlResolver).split('\n');
+    assert.deepEqual(lines.slice(-2), [
+      'Budget exceeded: bundle shared_bundle_1.js is over 50 bytes ' +
+          '(budget "shared_*.js").',
+      'Budget exceeded: entrypoint b.js is over 100 bytes (budget "b.js").',
+    ]);
+  });
+
+  test('only measures entrypoints whose bundles were produced', async () => {
+    const bundler = new Bundler({analyzer, budgets: {}});
+    const manifest = await bundler.generateManifest([aUrl, bUrl]);
+    const {budgetReport} = await bundler.bundle(manifest, [aUrl, sharedUrl]);
+    assert.deepEqual(
+        budgetReport!.bundles.map((b) => b.url), [aUrl, sharedUrl]);
+    assert.deepEqual(budgetReport!.entrypoints.map((e) => e.url), [aUrl]);
+  });
+
+  test('is not produced without budgets', async () => {
+    const bundler = new Bundler({analyzer});
+    const {budgetReport} =
+        await bundler.bundle(await bundler.generateManifest([aUrl, bUrl]));
+    assert.isUndefined(budgetReport);
+  });
+});
@@ -15,10 +15,10 @@
 /// <reference path="../../node_modules/@types/node/index.d.ts" />
 /// <reference path="../../node_modules/@types/mocha/index.d.ts" />
 import * as chai from 'chai';
-import {ResolvedUrl} from 'polymer-analyzer';
+import {PackageRelativeUrl, PackageUrlResolver, ResolvedUrl} from 'polymer-analyzer';
 import {resolvedUrl as r} from 'polymer-analyzer/lib/test/test-utils';
 
-import {Bundle, BundleManifest, composeStrategies, generateBundles, generateCountingSharedBundleUrlMapper, generateEagerMergeStrategy, generateMatchMergeStrategy, generateSharedBundleUrlMapper, generateSharedDepsMergeStrategy, generateShellMergeStrategy, mergeBundles, mergeSingleEntrypointSubBundles, TransitiveDependenciesMap} from '../bundle-manifest';
+import {Bundle, BundleManifest, composeStrategies, generateBundles, generateCountingSharedBundleUrlMapper, generateEagerMergeStrategy, generateHashedSharedBundleUrlMapper, generateMatchMergeStrategy, generateSharedBundleUrlMapper, generateSharedDepsMergeStrategy, generateShellMergeStrategy, mergeBundles, mergeLinkedBundlesIntoHtmlBundles, mergeSingleEntrypointSubBundles, TransitiveDependenciesMap} from '../bundle-manifest';
 
 chai.config.showDiff = true;
 
@@ -108,6 +108,40 @@ suite('BundleManifest', () => {
           serializeBundle(manifest.bundles.get(r`path/to/shared1.html`)!),
           '[A,B]->[E,F]');
     });
+
+    test('generateHashedSharedBundleUrlMapper names by file list', () => {
+      const manifest = new BundleManifest(
+          bundles, generateHashedSharedBundleUrlMapper(r`path/to/shared_`));
+      const sharedBundleUrl = manifest.getBundleForFile(r`E`)!.url;
+      assert.match(sharedBundleUrl, /^path\/to\/shared_[0-9a-f]{6}\.html$/);
+      assert.equal(manifest.getBundleForFile(r`A`)!.url, 'A');
+
+      // The same files in a different order produce the same name, while a
+      // different set of files produces a different one.
+      const reordered = new BundleManifest(
+          ['[A]->[A,C]', '[B]->[B,D]', '[A,B]->[F,E]'].map(deserializeBundle),
+          generateHashedSharedBundleUrlMapper(r`path/to/shared_`));
+      assert.equal(reordered.getBundleForFile(r`E`)!.url, sharedBundleUrl);
+      const changed = new BundleManifest(
+          ['[A]->[A,C]', '[B]->[B,D]', '[A,B]->[E,G]'].map(deserializeBundle),
+          generateHashedSharedBundleUrlMapper(r`path/to/shared_`));
+      assert.notEqual(changed.getBundleForFile(r`E`)!.url, sharedBundleUrl);
+    });
+
+    test('renameBundle updates urls, file lookups and order', () => {
+      const manifest = new BundleManifest(
+          ['[A]->[A,C]', '[B]->[B,D]', '[A,B]->[E,F]'].map(deserializeBundle),
+          underscoreJoinMapper);
+      manifest.bundles.get(r`A`)!.stripImports.add(r`A_B`);
+      manifest.renameBundle(r`A_B`, r`shared_abc123`);
+      assert.deepEqual(
+          [...manifest.bundles.keys()], ['A', 'B', 'shared_abc123']);
+      assert.equal(manifest.getBundleForFile(r`F`)!.url, 'shared_abc123');
+      assert.deepEqual(
+          [...manifest.bundles.get(r`A`)!.stripImports], ['shared_abc123']);
+      assert.throws(() => manifest.renameBundle(r`A_B`, r`X`));
+      assert.throws(() => manifest.renameBundle(r`A`, r`B`));
+    });
   });
 
   suite('generateBundles', () => {
@@ -153,6 +187,40 @@ suite('BundleManifest', () => {
         '[B]->[B]',
       ]);
     });
+
+    test(
+        'groups stylesheets and classic scripts into their own bundles', () => {
+          const depsIndex = new Map<ResolvedUrl, Set<ResolvedUrl>>();
+          depsIndex.set(
+              r`A`,
+              new Set([r`A`, r`C`, r`a.css`, r`c.css`, r`c.js`, r`s.js`]));
+          depsIndex.set(r`B`, new Set([r`B`, r`C`, r`c.css`, r`c.js`]));
+          depsIndex.set(r`E`, new Set([r`E`, r`s.js`]));
+          depsIndex.set(r`d.css`, new Set([r`d.css`]));
+
+          const bundles = generateBundles(depsIndex);
+          assert.deepEqual(bundles.map(serializeWithType).sort(), [
+            '[A,B]->[C].html-fragment',
+            '[A,B]->[c.css].css',
+            '[A,B]->[c.js].classic-script',
+            '[A,E]->[s.js].classic-script',
+            '[A]->[A].html-fragment',
+            '[A]->[a.css].css',
+            '[B]->[B].html-fragment',
+            '[E]->[E].html-fragment',
+            '[d.css]->[d.css].css',
+          ]);
+
+          mergeLinkedBundlesIntoHtmlBundles(bundles);
+          assert.deepEqual(bundles.map(serializeWithType).sort(), [
+            '[A,B]->[C,c.css,c.js].html-fragment',
+            '[A,E]->[s.js].classic-script',
+            '[A]->[A,a.css].html-fragment',
+            '[B]->[B].html-fragment',
+            '[E]->[E].html-fragment',
+            '[d.css]->[d.css].css',
+          ]);
+        });
   });
 
   suite('BundleStrategy', () => {
@@ -436,6 +504,100 @@ suite('BundleManifest', () => {
     });
   });
 
+  suite('JSON', () => {
+
+    const urlResolver = new PackageUrlResolver({packageDir: '/memory/'});
+    const u = (url: string) => urlResolver.resolve(url as PackageRelativeUrl)!;
+
+    function buildManifest() {
+      const aBundle =
+          new Bundle('es6-module', new Set([u('a.js')]), new Set([u('a.js')]));
+      const sharedBundle = new Bundle(
+          'es6-module',
+          new Set([u('a.js'), u('b.js')]),
+          new Set([u('c.js'), u('d.js')]));
+      sharedBundle.stripImports.add(u('e.js'));
+      sharedBundle.bundledExports.set(
+          u('c.js'), new Map([['default', '$cDefault'], ['c', 'c']]));
+      const bBundle =
+          new Bundle('es6-module', new Set([u('b.js')]), new Set([u('b.js')]));
+      return new BundleManifest(
+          [aBundle, sharedBundle, bBundle],
+          generateSharedBundleUrlMapper(() => [u('shared_bundle_1.js')]));
+    }
+
+    test('toVersionedJson keeps types, stripImports and exports', () => {
+      const json = buildManifest().toVersionedJson(urlResolver);
+      assert.deepEqual<{}>(json, {
+        version: 2,
+        bundles: [
+          {
+            url: 'a.js',
+            type: 'es6-module',
+            entrypoints: ['a.js'],
+            files: ['a.js'],
+            stripImports: [],
+            bundledExports: {},
+          },
+          {
+            url: 'b.js',
+            type: 'es6-module',
+            entrypoints: ['b.js'],
+            files: ['b.js'],
+            stripImports: [],
+            bundledExports: {},
+          },
+          {
+            url: 'shared_bundle_1.js',
+            type: 'es6-module',
+            entrypoints: ['a.js', 'b.js'],
+            files: ['c.js', 'd.js'],
+            stripImports: ['e.js'],
+            bundledExports: {'c.js': {default: '$cDefault', c: 'c'}},
+          },
+        ],
+      });
+    });
+
+    test('fromJson loads what toVersionedJson produces', () => {
+      const json = buildManifest().toVersionedJson(urlResolver);
+      const manifest = BundleManifest.fromJson(
+          JSON.parse(JSON.stringify(json)), urlResolver);
+      assert.deepEqual(
+          [...manifest.bundles.keys()],
+          [u('a.js'), u('b.js'), u('shared_bundle_1.js')]);
+      const shared = manifest.getBundleForFile(u('d.js'))!;
+      assert.equal(shared.url, u('shared_bundle_1.js'));
+      assert.equal(shared.bundle.type, 'es6-module');
+      assert.deepEqual([...shared.bundle.stripImports], [u('e.js')]);
+      assert.deepEqual(
+          [...shared.bundle.bundledExports.get(u('c.js'))!],
+          [['default', '$cDefault'], ['c', 'c']]);
+      assert.deepEqual(manifest.toVersionedJson(urlResolver), json);
+    });
+
+    test('fromJson rejects invalid manifests', () => {
+      const bundle: any = {
+        url: 'a.js',
+        type: 'es6-module',
+        entrypoints: ['a.js'],
+        files: ['a.js'],
+      };
+      assert.throws(
+          () => BundleManifest.fromJson({'a.js': ['a.js']} as any, urlResolver),
+          /Unsupported bundle manifest version/);
+      assert.throws(
+          () => BundleManifest.fromJson(
+              {version: 2, bundles: [{...bundle, type: 'wasm'}]}, urlResolver),
+          /Unknown type "wasm"/);
+      assert.throws(
+          () => BundleManifest.fromJson(
+              {version: 2, bundles: [bundle, {...bundle, url: 'b.js'}]},
+              urlResolver),
+          /File .*a\.js is in both bundles/);
+    });
+  });
+
   suite('Bundle types', () => {
     test('inferred properly from resolved URLs of entrypoints', () => {
       const depsIndex: TransitiveDependenciesMap = new Map();
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+/// <reference path="../../node_modules/@types/chai/index.d.ts" />
+/// <reference path="../../node_modules/@types/node/index.d.ts" />
+/// <reference path="../../node_modules/@types/mocha/index.d.ts" />
+import {assert} from 'chai';
+
+import {Bundle, BundleManifest, generateSharedBundleUrlMapper} from '../bundle-manifest';
+import {getBundleDependencies, getBundleUrlsInDependencyOrder} from '../bundle-order';
+
+import {inMemoryAnalyzer} from './test-utils';
+
+suite('Bundle order', () => {
+  // Names each bundle after its first file.
+  const firstFileUrlMapper = generateSharedBundleUrlMapper(
+      (bundles) => bundles.map((b) => [...b.files][0]));
+
+  test('orders bundles after the bundles they reference', async () => {
+    const analyzer = inMemoryAnalyzer({
+      'a.js': `
+        import {b} from './b.js';
+        import {c} from './c.js';
+        export const a = b + c;
+      `,
+      'b.js': `
+        import {c} from './c.js';
+        export const b = 'b' + c;
+      `,
+      'c.js': `
+        export const c = 'c';
+      `,
+    });
+    const [aUrl, bUrl, cUrl] =
+        ['a.js', 'b.js', 'c.js'].map((url) => analyzer.resolveUrl(url)!);
+    const manifest = new BundleManifest(
+        [
+          new Bundle('es6-module', new Set([aUrl]), new Set([aUrl])),
+          new Bundle('es6-module', new Set([bUrl]), new Set([bUrl])),
+          new Bundle('es6-module', new Set([aUrl, bUrl]), new Set([cUrl])),
+        ],
+        firstFileUrlMapper);
+    assert.deepEqual(
+        await getBundleUrlsInDependencyOrder(analyzer, manifest),
+        [[cUrl], [bUrl], [aUrl]]);
+  });
+
+  test('does not count the imports of importing documents', async () => {
+    const analyzer = inMemoryAnalyzer({
+      'a.html': `
+        <link rel="import" href="b.html">
+        <script type="module" src="c.js"></script>
+      `,
+      'b.html': `
+        <p>b</p>
+      `,
+      'c.js': `
+        export const c = 'c';
+      `,
+    });
+    const urls =
+        ['a.html', 'b.html', 'c.js'].map((url) => analyzer.resolveUrl(url)!);
+    const [aUrl, bUrl, cUrl] = urls;
+    const manifest = new BundleManifest(
+        [
+          new Bundle('html-fragment', new Set([aUrl]), new Set([aUrl])),
+          new Bundle('html-fragment', new Set([bUrl]), new Set([bUrl])),
+          new Bundle('es6-module', new Set([aUrl]), new Set([cUrl])),
+        ],
+        firstFileUrlMapper);
+    const dependencies = await getBundleDependencies(analyzer, manifest);
+    assert.deepEqual([...dependencies.get(aUrl)!], [bUrl, cUrl]);
+    assert.deepEqual([...dependencies.get(cUrl)!], []);
+  });
+
+  test('groups bundles which reference each other', async () => {
+    const analyzer = inMemoryAnalyzer({
+      'a.html': `
+        <link rel="import" href="b.html">
+      `,
+      'b.html': `
+        <link rel="import" href="c.html">
+      `,
+      'c.html': `
+        <link rel="import" href="b.html">
+      `,
+      'd.html': `
+        <link rel="import" href="a.html">
+      `,
+    });
+    const urls = ['a.html', 'b.html', 'c.html', 'd.html'].map(
+        (url) => analyzer.resolveUrl(url)!);
+    const [aUrl, bUrl, cUrl, dUrl] = urls;
+    const manifest = new BundleManifest(
+        urls.map(
+            (url) =>
+                new Bundle('html-fragment', new Set([url]), new Set([url]))),
+        firstFileUrlMapper);
+    assert.deepEqual(
+        await getBundleUrlsInDependencyOrder(analyzer, manifest),
+        [[cUrl, bUrl], [aUrl], [dUrl]]);
+  });
+});
@@ -25,6 +25,7 @@ import {Bundler, Options as BundlerOptions} from '../bundler';
 import {BundledDocument} from '../document-collection';
 import * as matchers from '../matchers';
 import {resolvePath} from '../url-utils';
+import {hash} from '../utils';
 
 chai.config.showDiff = true;
 
@@ -491,6 +492,48 @@ suite('Bundler', () => {
     });
   });
 
+  suite('Inline assets', () => {
+    test('binary assets are inlined with their bytes', async () => {
+      const {content} =
+          await bundle('inline-assets.html', {inlineAssetsMaxBytes: 1000});
+      const png = fs.readFileSync('test/html/inline-assets/pixel.png');
+      assert.include(
+          content,
+          `<img src="data:image/png;base64,${png.toString('base64')}">`);
+      assert.deepEqual(
+          [...documentBundle.inlinedAssets],
+          [resolve('inline-assets/pixel.png')]);
+    });
+
+    test('assets are not inlined without the option', async () => {
+      const {content} = await bundle('inline-assets.html');
+      assert.include(content, '<img src="inline-assets/pixel.png">');
+    });
+  });
+
+  suite('Collect assets', () => {
+    test('assets which are not inlined are collected', async () => {
+      const {content} = await bundle(
+          'inline-assets.html', {collectAssets: true, inlineAssetsMaxBytes: 1});
+      assert.include(content, '<img src="inline-assets/pixel.png">');
+      assert.deepEqual([...documentBundle.assets], [[
+                         resolve('inline-assets/pixel.png'),
+                         resolve('inline-assets/pixel.png')
+                       ]]);
+    });
+
+    test('hashed asset URLs are rewritten', async () => {
+      const {content} = await bundle(
+          'inline-assets.html', {collectAssets: true, hashAssetUrls: true});
+      const png = fs.readFileSync('test/html/inline-assets/pixel.png');
+      const hashedUrl = `inline-assets/pixel-${hash(png, 6)}.png`;
+      assert.include(content, `<img src="${hashedUrl}">`);
+      assert.deepEqual(
+          [...documentBundle.assets],
+          [[resolve('inline-assets/pixel.png'), resolve(hashedUrl)]]);
+    });
+  });
+
   suite('Excludes', () => {
     test('Excluded imports are not inlined', async () => {
       const {ast: doc} = await bundle(inputPath, {
@@ -552,6 +595,39 @@ suite('Bundler', () => {
       assert.include(content, 'src="external/external.js"');
     });
 
+    test('Bundle excluded imports are not inlined or missing', async () => {
+      const {ast: doc} = await bundle(inputPath, {
+        bundleExcludes: [{
+          pattern: 'default.html',
+          excludes: [resolve('imports/simple-import.html')],
+        }],
+      });
+      const imports = dom5.queryAll(
+          doc,
+          preds.AND(
+              preds.hasTagName('link'),
+              preds.hasAttrValue('rel', 'import'),
+              preds.hasAttrValue('href', 'imports/simple-import.html')));
+      assert.equal(imports.length, 1);
+      assert.deepEqual([...documentBundle.missingImports], []);
+    });
+
+    test('Bundle excluded Script urls are not inlined', async () => {
+      const {content} = await bundle('external.html', {
+        bundleExcludes: [{pattern: '*.html', excludes: [resolve('external')]}],
+      });
+      assert.include(content, 'src="external/external.js"');
+    });
+
+    test('Bundle excludes do not apply to other bundles', async () => {
+      const {content} = await bundle('external.html', {
+        bundleExcludes: [
+          {pattern: 'default.html', excludes: [resolve('external')]},
+        ],
+      });
+      assert.notInclude(content, 'src="external/external.js"');
+    });
+
     test('Excluded comments are removed', async () => {
       const options = {stripComments: true};
       const {ast: doc} = await bundle('comments.html', options);
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+/// <reference path="../../node_modules/@types/chai/index.d.ts" />
+/// <reference path="../../node_modules/@types/node/index.d.ts" />
+/// <reference path="../../node_modules/@types/mocha/index.d.ts" />
+import {assert} from 'chai';
+import {SourceMapConsumer} from 'source-map';
+
+import {Bundler} from '../bundler';
+import {heredoc, inMemoryAnalyzer} from './test-utils';
+
+suite('ClassicScriptBundler', () => {
+
+  const analyzer = inMemoryAnalyzer({
+    'a.html': `
+      <script src="lib.js"></script>
+      <script src="util.js"></script>
+      <link rel="import" href="a-import.html">
+      <script src="late.js"></script>
+    `,
+    'a-import.html': `<script>window.imported = true;</script>`,
+    'b.html': `
+      <script src="lib.js"></script>
+      <script src="util.js"></script>
+      <script src="late.js"></script>
+    `,
+    'lib.js': `window.lib = {};`,
+    'util.js': `window.util = window.lib;`,
+    'late.js': `window.late = window.imported;`,
+    'c.html': `
+      <script src="assign.js"></script>
+      <script src="iife.js"></script>
+    `,
+    'd.html': `
+      <script src="assign.js"></script>
+      <script src="iife.js"></script>
+    `,
+    'assign.js': `var foo = window.foo // no semicolon`,
+    'iife.js': `(function() {})();`,
+    'e.html': `
+      <script src="strict.js"></script>
+      <script src="sloppy.js"></script>
+    `,
+    'f.html': `
+      <script src="strict.js"></script>
+      <script src="sloppy.js"></script>
+    `,
+    'strict.js': `'use strict';\nwindow.strict = true;`,
+    'sloppy.js': `with (window) { sloppy = true; }`,
+  });
+  const resolve = (url: string) => analyzer.resolveUrl(url)!;
+
+  test('shared scripts are concatenated in evaluation order', async () => {
+    const bundler = new Bundler({analyzer, inlineScripts: true});
+    const manifest =
+        await bundler.generateManifest(['a.html', 'b.html'].map(resolve));
+    const {documents} = await bundler.bundle(manifest);
+    assert.deepEqual(
+        [...documents.keys()].sort(),
+        ['a.html', 'b.html', 'shared_bundle_1.js', 'shared_bundle_2.js'].map(
+            resolve));
+    assert.deepEqual(
+        documents.get(resolve('shared_bundle_1.js'))!.content, heredoc`
+          window.lib = {};
+          ;
+          window.util = window.lib;`);
+    assert.deepEqual(
+        documents.get(resolve('shared_bundle_2.js'))!.content,
+        'window.late = window.imported;');
+    const a = documents.get(resolve('a.html'))!.content;
+    assert.equal(a.split('<script').length - 1, 3);
+    assert.isBelow(
+        a.indexOf('<script src="shared_bundle_1.js"></script>'),
+        a.indexOf('window.imported = true;'));
+    assert.isBelow(
+        a.indexOf('window.imported = true;'),
+        a.indexOf('<script src="shared_bundle_2.js"></script>'));
+    const b = documents.get(resolve('b.html'))!.content;
+    assert.isBelow(
+        b.indexOf('<script src="shared_bundle_1.js"></script>'),
+        b.indexOf('<script src="shared_bundle_2.js"></script>'));
+  });
+
+  test('scripts are not continued by the scripts after them', async () => {
+    const bundler = new Bundler({analyzer});
+    const manifest =
+        await bundler.generateManifest(['c.html', 'd.html'].map(resolve));
+    const {documents} = await bundler.bundle(manifest);
+    assert.deepEqual(
+        documents.get(resolve('shared_bundle_1.js'))!.content, heredoc`
+          var foo = window.foo // no semicolon
+          ;
+          (function() {})();`);
+  });
+
+  test('strict and sloppy mode scripts are not concatenated', async () => {
+    const bundler = new Bundler({analyzer});
+    const manifest =
+        await bundler.generateManifest(['e.html', 'f.html'].map(resolve));
+    assert.deepEqual(
+        [...manifest.bundles.values()]
+            .filter((bundle) => bundle.type === 'classic-script')
+            .map((bundle) => [...bundle.files]),
+        [[resolve('strict.js')], [resolve('sloppy.js')]]);
+  });
+
+  test('the bundle has a source map of the scripts', async () => {
+    const bundler = new Bundler({analyzer, sourcemaps: true});
+    const manifest =
+        await bundler.generateManifest(['a.html', 'b.html'].map(resolve));
+    const {documents} = await bundler.bundle(manifest);
+    const content = documents.get(resolve('shared_bundle_1.js'))!.content;
+    const match =
+        content.match(/\/\/# sourceMappingURL=data:[^,]+,([A-Za-z0-9+\/=]+)/);
+    assert.isNotNull(match);
+    const consumer = new SourceMapConsumer(
+        JSON.parse(Buffer.from(match![1], 'base64').toString('utf8')));
+    const position = consumer.originalPositionFor({line: 3, column: 0});
+    assert.equal(position.source, resolve('util.js'));
+    assert.equal(position.line, 1);
+    assert.equal(position.column, 0);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+/// <reference path="../../node_modules/@types/chai/index.d.ts" />
+/// <reference path="../../node_modules/@types/node/index.d.ts" />
+/// <reference path="../../node_modules/@types/mocha/index.d.ts" />
+import {assert} from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+
+import {Bundler} from '../bundler';
+import {generateStrategy, loadConfig, validateConfig} from '../config';
+import {ensureTrailingSlash, resolvePath} from '../url-utils';
+
+import {inMemoryAnalyzer} from './test-utils';
+
+suite('Config', () => {
+  suite('validateConfig', () => {
+    test('accepts every option', () => {
+      assert.deepEqual(
+          validateConfig({
+            entrypoints: ['src/app.html'],
+            root: '.',
+            outDir: 'build',
+            outFile: 'build/app.html',
+            manifestIn: 'manifest.json',
+            manifestOut: 'build/manifest.json',
+            pushManifestOut: 'build/push-manifest.json',
+            cspHashesOut: 'build/csp-hashes.json',
+            versionedManifest: true,
+            excludes: ['bower_components/'],
+            bundleExcludes:
+                [{pattern: 'src/app.html', excludes: ['src/lazy/']}],
+            inlineCss: true,
+            inlineScripts: false,
+            copyAssets: true,
+            hashAssetUrls: true,
+            rewriteUrlsInTemplates: true,
+            sourcemaps: true,
+            stripComments: true,
+            minifyHtml: true,
+            minifyCss: true,
+            minifyJs: true,
+            minifyTemplates: true,
+            treeshake: true,
+            outputFormat: 'system',
+            preloadModuleBundles: true,
+            prefetchLazyBundles: true,
+            sri: true,
+            csp: 'external',
+            moduleResolution: 'node',
+            redirects: [{prefix: 'myapp://', path: 'src/myapp'}],
+            hashSharedBundleUrls: 'content',
+            strategy: [
+              {type: 'shared', minEntrypoints: 3},
+              {type: 'shell', url: 'src/app-shell.html'},
+              {type: 'eager-merge', url: 'src/app.html'},
+              {type: 'no-back-link', urls: ['src/app.html']},
+            ],
+            budgets: {bundles: [{pattern: '**', maxGzipBytes: 10000}]},
+            failOnWarnings: true,
+          }),
+          []);
+    });
+
+    test('reports unknown keys and values of the wrong type', () => {
+      assert.deepEqual(
+          validateConfig({
+            exclude: ['bower_components/'],
+            inlineCss: 'yes',
+            moduleResolution: 'classic',
+            bundleExcludes: [{pattern: 'src/app.html'}],
+            strategy: [
+              {type: 'shell', url: 'src/app-shell.html', min: 3},
+              {type: 'lazy-merge'},
+            ],
+            budgets: {bundles: [{pattern: '**', maxBytes: -1}]},
+          }),
+          [
+            'config.exclude is not a known option.',
+            'config.inlineCss must be a boolean.',
+            'config.moduleResolution must be one of "node", "none".',
+            'config.bundleExcludes[0].excludes is required.',
+            'config.strategy[0].min is not a known option.',
+            'config.strategy[1].type must be one of "shared", "shell", ' +
+                '"eager-merge", "no-back-link".',
+            'config.budgets.bundles[0].maxBytes must be a whole number.',
+          ]);
+    });
+  });
+
+  suite('loadConfig', () => {
+    const writeConfig = (config: {}) => {
+      const tempdir =
+          fs.mkdtempSync(resolvePath(ensureTrailingSlash(os.tmpdir())));
+      const configPath = resolvePath(tempdir, 'polymer-bundler.config.json');
+      fs.writeFileSync(configPath, JSON.stringify(config));
+      return {tempdir, configPath};
+    };
+
+    test('resolves paths relative to the config file', () => {
+      const {tempdir, configPath} = writeConfig({
+        entrypoints: ['app.html'],
+        root: 'src',
+        outDir: 'build',
+        redirects: [{prefix: 'myapp://', path: 'myapp'}],
+      });
+      assert.deepEqual(loadConfig(configPath), {
+        entrypoints: ['app.html'],
+        root: resolvePath(tempdir, 'src'),
+        outDir: resolvePath(tempdir, 'build'),
+        outFile: undefined,
+        manifestIn: undefined,
+        manifestOut: undefined,
+        pushManifestOut: undefined,
+        cspHashesOut: undefined,
+        redirects: [{prefix: 'myapp://', path: resolvePath(tempdir, 'myapp')}],
+      });
+    });
+
+    test('throws an error listing the problems', () => {
+      const {configPath} = writeConfig({inFile: 'app.html', treeshake: 1});
+      assert.throws(
+          () => loadConfig(configPath),
+          `Invalid config file ${configPath}:\n` +
+              `  config.inFile is not a known option.\n` +
+              `  config.treeshake must be a boolean.`);
+    });
+  });
+
+  suite('generateStrategy', () => {
+    const analyzer = inMemoryAnalyzer({
+      'shell-a.html': `<link rel="import" href="common.html">`,
+      'shell-b.html': `<link rel="import" href="common.html">`,
+      'view-a.html': `<link rel="import" href="shared-a.html">`,
+      'view-a2.html': `<link rel="import" href="shared-a.html">`,
+      'view-b.html': `<link rel="import" href="shared-b.html">`,
+      'view-b2.html': `<link rel="import" href="shared-b.html">`,
+      'common.html': ``,
+      'shared-a.html': ``,
+      'shared-b.html': ``,
+    });
+    const resolve = (url: string) => analyzer.resolveUrl(url)!;
+
+    test('composes the steps in order', async () => {
+      const bundler = new Bundler({
+        analyzer,
+        strategy: generateStrategy(
+            [
+              {type: 'eager-merge', url: 'view-a.html'},
+              {type: 'shell', url: 'shell-b.html'},
+            ],
+            resolve),
+      });
+      const manifest = await bundler.generateManifest([
+        'shell-a.html',
+        'shell-b.html',
+        'view-a.html',
+        'view-a2.html',
+        'view-b.html',
+        'view-b2.html',
+      ].map(resolve));
+      const files = (url: string) => {
+        const bundle = manifest.bundles.get(resolve(url))!;
+        return [...bundle.files].sort();
+      };
+      assert.deepEqual(
+          files('view-a.html'), ['shared-a.html', 'view-a.html'].map(resolve));
+      assert.deepEqual(
+          files('shell-b.html'),
+          ['common.html', 'shared-b.html', 'shell-b.html'].map(resolve));
+      assert.isTrue(manifest.bundles.get(resolve(
+          'shell-a.html'))!.stripImports.has(resolve('shell-b.html')));
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+/// <reference path="../../node_modules/@types/chai/index.d.ts" />
+/// <reference path="../../node_modules/@types/node/index.d.ts" />
+/// <reference path="../../node_modules/@types/mocha/index.d.ts" />
+import {assert} from 'chai';
+
+import {Bundler} from '../bundler';
+import {heredoc, inMemoryAnalyzer} from './test-utils';
+
+suite('CssBundler', () => {
+
+  const analyzer = inMemoryAnalyzer({
+    'app/a.html': `
+      <link rel="stylesheet" href="../styles/shared.css">
+      <link rel="stylesheet" href="../styles/theme.css">
+      <link rel="stylesheet" href="a.css">
+      <div class="a"></div>
+    `,
+    'app/b.html': `
+      <link rel="stylesheet" href="../styles/theme.css">
+      <div class="b"></div>
+    `,
+    'app/c.html': `
+      <link rel="stylesheet" href="../styles/shared.css">
+      <link rel="stylesheet" href="../styles/theme.css">
+    `,
+    'app/d.html': `
+      <link rel="stylesheet" href="../styles/shared.css">
+      <link rel="stylesheet" href="d.css">
+      <link rel="stylesheet" href="../styles/theme.css">
+    `,
+    'app/a.css': `.a { color: blue; }`,
+    'app/d.css': `.theme { color: blue; }`,
+    'styles/shared.css': `.shared { background: url(images/bg.png); }`,
+    'styles/theme.css': heredoc`
+      @import "colors.css";
+      .theme { color: red; }`,
+    'styles/colors.css': `.colors { color: green; }`,
+  });
+  const resolve = (url: string) => analyzer.resolveUrl(url)!;
+
+  test('shared stylesheets are bundled and linked', async () => {
+    const bundler = new Bundler({analyzer, inlineCss: true});
+    const manifest = await bundler.generateManifest(
+        ['app/a.html', 'app/b.html'].map(resolve));
+    const {documents} = await bundler.bundle(manifest);
+    assert.deepEqual([...documents.keys()].sort(), [
+      'app/a.html',
+      'app/b.html',
+      'shared_bundle_1.css',
+    ].map(resolve));
+    assert.deepEqual(
+        documents.get(resolve('shared_bundle_1.css'))!.content, heredoc`
+          .colors { color: green; }
+          .theme { color: red; }`);
+    const a = documents.get(resolve('app/a.html'))!.content;
+    assert.include(a, `<link rel="stylesheet" href="../shared_bundle_1.css">`);
+    // Stylesheets which aren't shared are still inlined, with their URLs
+    // rebased.
+    assert.include(
+        a,
+        `<style>.shared { background: url("../styles/images/bg.png"); }` +
+            `</style>`);
+    assert.include(a, `<style>.a { color: blue; }</style>`);
+  });
+
+  test('URLs are rebased to the CSS bundle', async () => {
+    const bundler = new Bundler({analyzer});
+    const manifest = await bundler.generateManifest(
+        ['app/a.html', 'app/c.html'].map(resolve));
+    const {documents} = await bundler.bundle(manifest);
+    assert.include(
+        documents.get(resolve('shared_bundle_1.css'))!.content,
+        `.shared { background: url("styles/images/bg.png"); }`);
+  });
+
+  test('links to the same CSS bundle are deduplicated', async () => {
+    const bundler = new Bundler({analyzer});
+    const manifest = await bundler.generateManifest(
+        ['app/a.html', 'app/c.html'].map(resolve));
+    const {documents} = await bundler.bundle(manifest);
+    const sharedBundle =
+        manifest.getBundleForFile(resolve('styles/shared.css'))!;
+    assert.deepEqual(
+        [...sharedBundle.bundle.files],
+        ['styles/shared.css', 'styles/theme.css'].map(resolve));
+    const c = documents.get(resolve('app/c.html'))!.content;
+    assert.equal(c.split('rel="stylesheet"').length - 1, 1);
+    assert.include(c, `href="../shared_bundle_1.css"`);
+  });
+
+  test('only adjacent stylesheets are bundled together', async () => {
+    const bundler = new Bundler({analyzer});
+    const manifest = await bundler.generateManifest(
+        ['app/c.html', 'app/d.html'].map(resolve));
+    const {documents} = await bundler.bundle(manifest);
+    assert.deepEqual(
+        ['styles/shared.css', 'styles/theme.css'].map(
+            (url) => [...manifest.getBundleForFile(
+                                     resolve(url))!.bundle.files]),
+        [[resolve('styles/shared.css')], [resolve('styles/theme.css')]]);
+    // The rules of d.css still come between those of the stylesheets it is
+    // linked between.
+    const d = documents.get(resolve('app/d.html'))!.content;
+    const sharedLink = d.indexOf(`href="../shared_bundle_1.css"`);
+    const dStyle = d.indexOf(`<style>.theme { color: blue; }</style>`);
+    const themeLink = d.indexOf(`href="../shared_bundle_2.css"`);
+    assert.isAbove(sharedLink, -1);
+    assert.isAbove(dStyle, sharedLink);
+    assert.isAbove(themeLink, dStyle);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+/// <reference path="../../node_modules/@types/chai/index.d.ts" />
+/// <reference path="../../node_modules/@types/node/index.d.ts" />
+/// <reference path="../../node_modules/@types/mocha/index.d.ts" />
+import {assert} from 'chai';
+
+import {addCssImportConditions, getCssImportRules, serializeCssImport} from '../css-utils';
+
+suite('CSS Utils', () => {
+  suite('getCssImportRules', () => {
+    test('finds the URLs and conditions of @import rules', () => {
+      const cssText = `@import "a.css";
+@import url(b.css) screen, print;
+@import url( 'c.css' ) supports(not (display: grid));
+@import 'd.css' supports(display: flex) (min-width: 500px);
+.a { color: red; }`;
+      assert.deepEqual(
+          getCssImportRules(cssText).map(
+              ({href, supports, media}) => ({href, supports, media})),
+          [
+            {href: 'a.css', supports: undefined, media: undefined},
+            {href: 'b.css', supports: undefined, media: 'screen, print'},
+            {href: 'c.css', supports: 'not (display: grid)', media: undefined},
+            {
+              href: 'd.css',
+              supports: '(display: flex)',
+              media: '(min-width: 500px)'
+            },
+          ]);
+      const [, second] = getCssImportRules(cssText);
+      assert.equal(second.index, cssText.indexOf('@import url(b.css)'));
+      assert.equal(second.text, '@import url(b.css) screen, print;');
+    });
+
+    test('ignores @imports in comments and strings', () => {
+      const cssText = `/* @import "a.css"; */
+@import "b.css";
+.c { content: "@import 'c.css';"; }`;
+      assert.deepEqual(
+          getCssImportRules(cssText).map(({href}) => href), ['b.css']);
+    });
+  });
+
+  suite('addCssImportConditions', () => {
+    test('combines the conditions of nested imports', () => {
+      const outer = {
+        href: 'a.css',
+        supports: '(display: grid)',
+        media: 'screen, print'
+      };
+      assert.equal(
+          serializeCssImport(addCssImportConditions(
+              {href: 'b.css', supports: 'not (gap: 1px)', media: '(color)'},
+              outer)),
+          '@import url("b.css") ' +
+              'supports(((display: grid)) and (not (gap: 1px))) ' +
+              'screen and (color), print and (color);');
+      assert.equal(
+          serializeCssImport(addCssImportConditions({href: 'b.css'}, outer)),
+          '@import url("b.css") supports((display: grid)) screen, print;');
+    });
+  });
+});
@@ -18,7 +18,7 @@
 import * as chai from 'chai';
 import {Analyzer, FsUrlLoader, FsUrlResolver, PackageRelativeUrl, ResolvedUrl} from 'polymer-analyzer';
 
-import {buildDepsIndex} from '../deps-index';
+import {buildDepsIndex, DepsIndexCache, invalidateDepsIndexCache} from '../deps-index';
 import {inMemoryAnalyzer} from './test-utils';
 
 chai.config.showDiff = true;
@@ -102,6 +102,30 @@ suite('Bundler', () => {
           serializeMap(index), serializeMap(expectedEntrypointsToDeps));
     });
 
+    test('with a cache invalidated by changed files', async () => {
+      analyzer = new Analyzer({
+        urlResolver: new FsUrlResolver('test/html/imports'),
+        urlLoader: new FsUrlLoader('test/html/imports')
+      });
+      const entrypoint = resolve('lazy-imports.html');
+      const lazyImport1 = resolve('lazy-imports/lazy-import-1.html');
+      const lazyImport2 = resolve('lazy-imports/lazy-import-2.html');
+      const eager1 = resolve('lazy-imports/subfolder/eager-import-1.html');
+      const cache: DepsIndexCache = new Map();
+      const index = await buildDepsIndex([entrypoint], analyzer, cache);
+      chai.assert.deepEqual([...cache.keys()].sort(), [...index.keys()].sort());
+
+      const invalidated = invalidateDepsIndexCache(cache, [eager1]);
+      chai.assert.include(invalidated, lazyImport2);
+      chai.assert.notInclude(invalidated, lazyImport1);
+      chai.assert.isFalse(cache.has(lazyImport2));
+      chai.assert.isTrue(cache.has(lazyImport1));
+
+      const rebuiltIndex = await buildDepsIndex([entrypoint], analyzer, cache);
+      chai.assert.deepEqual(serializeMap(rebuiltIndex), serializeMap(index));
+      chai.assert.isTrue(cache.has(lazyImport2));
+    });
+
     test('when an entrypoint imports an entrypoint', async () => {
       analyzer = new Analyzer({
         urlResolver: new FsUrlResolver('test/html/imports'),
@@ -124,6 +148,87 @@ suite('Bundler', () => {
           serializeMap(index), serializeMap(expectedEntrypointsToDeps));
     });
 
+    test('with stylesheets', async () => {
+      analyzer = inMemoryAnalyzer({
+        'a.html': `
+          <link rel="import" href="b.html">
+          <link rel="stylesheet" href="a.css">
+        `,
+        'b.html': `<link rel="stylesheet" href="b.css">`,
+        'a.css': `.a { color: red; }`,
+        'b.css': `.b { color: blue; }`,
+      });
+      const a = resolve('a.html');
+      const expectedEntrypointsToDeps = new Map([
+        [
+          a,
+          new Set([a, resolve('a.css'), resolve('b.html'), resolve('b.css')])
+        ],
+      ]);
+      const index = await buildDepsIndex([a], analyzer);
+      chai.assert.deepEqual(
+          serializeMap(index), serializeMap(expectedEntrypointsToDeps));
+    });
+
+    test('with module workers and service workers', async () => {
+      analyzer = inMemoryAnalyzer({
+        'index.html': `
+          <script>
+            navigator.serviceWorker.register('sw.js', {type: 'module'});
+            navigator.serviceWorker.register('classic-sw.js');
+          </script>
+          <script type="module" src="app.js"></script>
+        `,
+        'app.js': `
+          import {start} from './workers/start.js';
+          start();
+        `,
+        'workers/start.js': `
+          export function start() {
+            return new Worker('./worker.js', {type: 'module'});
+          }
+          export function startShared() {
+            return new Worker(
+                new URL('./shared-worker.js', import.meta.url),
+                {type: 'module'});
+          }
+          export function startClassic() {
+            return new Worker(
+                new URL('./classic-worker.js', import.meta.url));
+          }
+        `,
+        'workers/worker.js': `
+          import {upcase} from '../upcase.js';
+          self.onmessage = (e) => postMessage(upcase(e.data));
+        `,
+        'workers/shared-worker.js': `
+          import {upcase} from '../upcase.js';
+          self.onmessage = (e) => postMessage(upcase(e.data));
+        `,
+        'upcase.js': `export const upcase = (str) => str.toUpperCase();`,
+        'workers/classic-worker.js': `importScripts('../upcase.js');`,
+        'sw.js': `self.addEventListener('fetch', () => {});`,
+        'classic-sw.js': `this.addEventListener('fetch', () => {});`,
+      });
+      const entrypoint = resolve('index.html');
+      const app = entrypoint + '>external#1>app.js>es6-module';
+      // Worker URLs are relative to the modules starting the workers, and the
+      // scripts of classic workers are no entrypoints.
+      const worker = resolve('workers/worker.js');
+      const sharedWorker = resolve('workers/shared-worker.js');
+      const sw = resolve('sw.js');
+      const expectedEntrypointsToDeps = new Map([
+        [entrypoint, new Set([entrypoint])],
+        [app, new Set([resolve('app.js'), resolve('workers/start.js')])],
+        [worker, new Set([worker, resolve('upcase.js')])],
+        [sharedWorker, new Set([sharedWorker, resolve('upcase.js')])],
+        [sw, new Set([sw])],
+      ]);
+      const index = await buildDepsIndex([entrypoint], analyzer);
+      chai.assert.deepEqual(
+          serializeMap(index), serializeMap(expectedEntrypointsToDeps));
+    });
+
     suite('module imports', () => {
 
       setup(() => {
@@ -148,4 +148,242 @@ suite('Es6ModuleBundler', () => {
       };
       export { omgz as $omgz, upcase$1 as $upcase, xyz as $xyz, Z, upcase, X, Y, Z$1 };`);
   });
+
+  test('rewriting module worker script URLs to their bundles', async () => {
+    const analyzer = inMemoryAnalyzer({
+      'a.js': `
+        import {start} from './workers/start.js';
+        start();
+      `,
+      'b.js': `
+        import {start} from './workers/start.js';
+        start();
+        navigator.serviceWorker.register('./sw.js', {type: 'module'});
+      `,
+      'workers/start.js': `
+        export function start() {
+          return new Worker('./worker.js', {type: 'module'});
+        }
+        export function startShared() {
+          return new Worker(
+              new URL('./shared-worker.js', import.meta.url),
+              {type: 'module'});
+        }
+      `,
+      'workers/worker.js': `self.onmessage = (e) => postMessage(e.data);`,
+      'workers/shared-worker.js': `
+        self.onmessage = (e) => postMessage(e.data);
+      `,
+      'sw.js': `self.addEventListener('fetch', () => {});`,
+    });
+    const aUrl = analyzer.resolveUrl('a.js')!;
+    const bUrl = analyzer.resolveUrl('b.js')!;
+    const workerUrl = analyzer.resolveUrl('workers/worker.js')!;
+    const sharedWorkerUrl = analyzer.resolveUrl('workers/shared-worker.js')!;
+    const swUrl = analyzer.resolveUrl('sw.js')!;
+    const bundler = new Bundler({analyzer});
+    const manifest = await bundler.generateManifest([aUrl, bUrl]);
+    assert.deepEqual([...manifest.bundles.get(workerUrl)!.files], [workerUrl]);
+    assert.deepEqual(
+        [...manifest.bundles.get(sharedWorkerUrl)!.files], [sharedWorkerUrl]);
+    assert.deepEqual([...manifest.bundles.get(swUrl)!.files], [swUrl]);
+    const sharedBundleDocument =
+        await bundle(bundler, manifest, sharedBundleUrl);
+    assert.include(
+        sharedBundleDocument.content, `new Worker('./workers/worker.js', {`);
+    assert.include(
+        sharedBundleDocument.content,
+        `new Worker(new URL('./workers/shared-worker.js', import.meta.url), {`);
+    const bDocument = await bundle(bundler, manifest, bUrl);
+    assert.include(
+        bDocument.content, `navigator.serviceWorker.register('./sw.js', {`);
+  });
+
+  test('leaving classic workers and service workers alone', async () => {
+    const analyzer = inMemoryAnalyzer({
+      'a.js': `
+        import {start} from './workers/start.js';
+        start();
+        navigator.serviceWorker.register('./sw.js');
+      `,
+      'workers/start.js': `
+        export function start() {
+          return new Worker(new URL('./worker.js', import.meta.url));
+        }
+      `,
+      'workers/worker.js':
+          `with (self) { onmessage = (e) => postMessage(e.data); }`,
+      'sw.js': `this.addEventListener('fetch', () => {});`,
+    });
+    const aUrl = analyzer.resolveUrl('a.js')!;
+    const bundler = new Bundler({analyzer, outputFormat: 'amd'});
+    const manifest = await bundler.generateManifest([aUrl]);
+    assert.deepEqual([...manifest.bundles.keys()], [aUrl]);
+    const {documents} = await bundler.bundle(manifest);
+    const content = documents.get(aUrl)!.content;
+    // The URL of the classic worker is rebased like any other
+    // `import.meta.url`, and its script is not bundled.
+    assert.include(content, `new Worker(new URL("./workers/worker.js", `);
+    assert.include(content, `navigator.serviceWorker.register('./sw.js');`);
+  });
+
+  test('rebasing import.meta URLs of modules moved into bundles', async () => {
+    const analyzer = inMemoryAnalyzer({
+      'a.js': `
+        import {icon} from './lib/icon.js';
+        console.log(icon);
+      `,
+      'b.js': `
+        import {icon} from './lib/icon.js';
+        console.log(icon);
+      `,
+      'lib/icon.js': `
+        export const icon = new URL('./icon.svg', import.meta.url);
+        export const url = import.meta.url;
+        export class IconElement {
+          static get importMeta() {
+            return import.meta;
+          }
+        }
+      `,
+    });
+    const bundler = new Bundler({analyzer});
+    const manifest = await bundler.generateManifest(
+        ['a.js', 'b.js'].map((url) => analyzer.resolveUrl(url)!));
+    const sharedBundleDocument =
+        await bundle(bundler, manifest, sharedBundleUrl);
+    assert.include(
+        sharedBundleDocument.content,
+        `const icon = new URL("./lib/icon.svg", import.meta.url);`);
+    assert.include(
+        sharedBundleDocument.content,
+        `const url = new URL("./lib/icon.js", import.meta.url).href;`);
+    assert.include(
+        sharedBundleDocument.content,
+        `url: new URL("./lib/icon.js", import.meta.url).href`);
+  });
+
+  suite('output formats', () => {
+    const analyzer = inMemoryAnalyzer({
+      'a.js': `
+        import {shared} from './shared.js';
+        export const a = shared + 1;
+        import('./lazy.js').then((lazy) => lazy.go(a));
+      `,
+      'b.html': `
+        <script type="module">
+          import {shared} from './shared.js';
+          console.log(shared);
+        </script>
+      `,
+      'c.html': `<script type="module" src="a.js"></script>`,
+      'lazy.js': `export function go(x) { console.log(x); }`,
+      'shared.js': `export const shared = 42;`,
+    });
+    const resolve = (url: string) => analyzer.resolveUrl(url)!;
+
+    const bundleInFormat = async (outputFormat: 'system' | 'amd' | 'iife') => {
+      const bundler = new Bundler({analyzer, outputFormat});
+      const manifest = await bundler.generateManifest(
+          ['a.js', 'b.html', 'c.html'].map(resolve));
+      const {documents, warnings} = await bundler.bundle(manifest);
+      const content = (url: string) => documents.get(resolve(url))!.content;
+      return {content, warnings};
+    };
+
+    test('system', async () => {
+      const {content} = await bundleInFormat('system');
+      assert.match(
+          content('a.js'),
+          /^System\.register\(\['\.\/shared_bundle_1\.js'\], function/);
+      assert.include(content('a.js'), `module.import('./lazy.js')`);
+      assert.match(content('shared_bundle_1.js'), /^System\.register\(\[\],/);
+      assert.include(content('b.html'), `System.import(dep)`);
+      assert.notInclude(content('b.html'), 'type="module"');
+      assert.deepEqual(
+          content('c.html'), `<script>System.import("./a.js");</script>`);
+    });
+
+    test('system exports bindings under each of their names', async () => {
+      const analyzer = inMemoryAnalyzer({
+        'a.js': `
+          export * from './b.js';
+          export const a = 'a';
+        `,
+        'b.js': `export const deep = 'b';`,
+      });
+      const aUrl = analyzer.resolveUrl('a.js')!;
+      const bundler = new Bundler({analyzer, outputFormat: 'system'});
+      const {documents} =
+          await bundler.bundle(await bundler.generateManifest([aUrl]));
+      const content = documents.get(aUrl)!.content;
+      // The ES output exports `deep` as both `deep` and `deep$1`.
+      assert.include(content, `const deep = exports('deep', 'b');`);
+      assert.include(content, `deep$1$alias = exports('deep$1', deep)`);
+    });
+
+    test('amd', async () => {
+      const {content} = await bundleInFormat('amd');
+      // RequireJS loads module ids ending in `.js` as URLs relative to the
+      // page, so the ids of bundles are without the extension.
+      assert.match(
+          content('a.js'),
+          /^define\(\['require', 'exports', '\.\/shared_bundle_1'\]/);
+      assert.include(content('a.js'), `require(['./lazy'], resolve, reject)`);
+      assert.include(
+          content('b.html'),
+          `define(['./shared_bundle_1'], function (shared_bundle_1)`);
+      assert.include(content('b.html'), 'require(deps, factory);');
+      assert.notInclude(content('b.html'), 'type="module"');
+      assert.deepEqual(content('c.html'), `<script>require(["./a"]);</script>`);
+    });
+
+    test('iife', async () => {
+      const analyzer = inMemoryAnalyzer({
+        'a.js': `
+          import {shared} from './shared.js';
+          export const a = shared + 1;
+        `,
+        'c.html': `<script type="module" src="a.js"></script>`,
+        'shared.js': `export const shared = 42;`,
+      });
+      const bundler = new Bundler({analyzer, outputFormat: 'iife'});
+      const {documents, warnings} =
+          await bundler.bundle(await bundler.generateManifest(
+              ['a.js', 'c.html'].map((url) => analyzer.resolveUrl(url)!)));
+      const content = (url: string) =>
+          documents.get(analyzer.resolveUrl(url)!)!.content;
+      assert.match(content('a.js'), /^var \$a = \(function \(exports\)/);
+      assert.include(content('a.js'), 'const shared = 42;');
+      assert.deepEqual(
+          content('c.html'), `<script src="a.js" defer=""></script>`);
+      assert.deepEqual(warnings, []);
+    });
+
+    test('iife bundles can not import other bundles', async () => {
+      const error = await bundleInFormat('iife').then(
+          () => assert.fail('bundling should fail'), (error) => error);
+      assert.include(
+          error.message,
+          `The "iife" output format can not be used for bundles which ` +
+              `import other bundles, but ${resolve('a.js')} imports `);
+    });
+
+    test('iife bundles can not import bundles dynamically', async () => {
+      const analyzer = inMemoryAnalyzer({
+        'a.js': `import('./lazy.js').then((lazy) => lazy.go());`,
+        'lazy.js': `export function go() {}`,
+      });
+      const bundler = new Bundler({analyzer, outputFormat: 'iife'});
+      const manifest =
+          await bundler.generateManifest([analyzer.resolveUrl('a.js')!]);
+      const error = await bundler.bundle(manifest).then(
+          () => assert.fail('bundling should fail'), (error) => error);
+      assert.equal(
+          error.message,
+          `The "iife" output format can not be used for bundles which ` +
+              `import other bundles, but ${analyzer.resolveUrl('a.js')} ` +
+              `imports ${analyzer.resolveUrl('lazy.js')}.`);
+    });
+  });
 });
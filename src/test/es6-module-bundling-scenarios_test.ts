@@ -17,7 +17,7 @@
 import {assert} from 'chai';
 import {PackageRelativeUrl} from 'polymer-analyzer';
 
-import {generateShellMergeStrategy} from '../bundle-manifest';
+import {BundleManifest, generateContentHashSharedBundleUrlMapper, generateShellMergeStrategy} from '../bundle-manifest';
 import {Bundler} from '../bundler';
 
 import {heredoc, inMemoryAnalyzer} from './test-utils';
@@ -62,6 +62,92 @@ suite('Es6 Module Bundling', () => {
       export { a as $a, b as $b, c as $c, C, B, A, C as C$1, B as B$1, C as C$2, C as $cDefault };`);
   });
 
+  test('export from modules in other bundles', async () => {
+    const analyzer = inMemoryAnalyzer({
+      'a.js': `
+        export * from './c.js';
+        export const A = 'a';
+      `,
+      'b.js': `
+        import {C, D} from './a.js';
+        console.log(C, D);
+      `,
+      'c.js': `
+        export * from './d.js';
+        export const C = 'c';
+      `,
+      'd.js': `
+        export const D = 'd';
+      `,
+      'e.js': `
+        import {C} from './c.js';
+        console.log(C);
+      `,
+    });
+    const aUrl = analyzer.resolveUrl('a.js')!;
+    const bUrl = analyzer.resolveUrl('b.js')!;
+    const sharedUrl = analyzer.resolveUrl('shared_bundle_1.js')!;
+    const bundler = new Bundler({analyzer});
+    const {documents} = await bundler.bundle(await bundler.generateManifest(
+        [aUrl, bUrl, analyzer.resolveUrl('e.js')!]));
+    assert.deepEqual(documents.get(aUrl)!.content, heredoc`
+      import { C, D } from './shared_bundle_1.js';
+      export { D, C } from './shared_bundle_1.js';
+      const A = 'a';
+      var a = {
+        C: C,
+        D: D,
+        A: A
+      };
+      export { a as $a, A };`);
+    assert.deepEqual(documents.get(bUrl)!.content, heredoc`
+      import { C, D } from './a.js';
+      console.log(C, D);`);
+    assert.deepEqual(documents.get(sharedUrl)!.content, heredoc`
+      const D = 'd';
+      var d = {
+        D: D
+      };
+      const C = 'c';
+      var c = {
+        C: C,
+        D: D
+      };
+      export { c as $c, d as $d, D, C, D as D$1 };`);
+  });
+
+  test('export from with ambiguous names and cycles', async () => {
+    const analyzer = inMemoryAnalyzer({
+      'a.js': `
+        export * from './b.js';
+        export * from './c.js';
+        export const A = 'a';
+      `,
+      'b.js': `
+        export * from './a.js';
+        export const B = 'b';
+        export const X = 'b';
+      `,
+      'c.js': `
+        export const C = 'c';
+        export const X = 'c';
+      `,
+    });
+    const aUrl = analyzer.resolveUrl('a.js')!;
+    const bundler = new Bundler({analyzer});
+    const {manifest} =
+        await bundler.bundle(await bundler.generateManifest([aUrl]));
+    // `X` is exported by both `b.js` and `c.js`, so is ambiguous for `a.js`
+    // and not exported from it, while the `export *` cycle between `a.js` and
+    // `b.js` still has `b.js` export the names of `a.js`.
+    const bundledExports = manifest.bundles.get(aUrl)!.bundledExports;
+    assert.deepEqual(
+        [...bundledExports.get(aUrl)!.keys()].sort(), ['*', 'A', 'B', 'C']);
+    assert.deepEqual(
+        [...bundledExports.get(analyzer.resolveUrl('b.js')!)!.keys()].sort(),
+        ['*', 'A', 'B', 'C', 'X']);
+  });
+
   suite('rewriting import specifiers', () => {
     const analyzer = inMemoryAnalyzer({
       'a.js': `
@@ -180,6 +266,136 @@ suite('Es6 Module Bundling', () => {
     });
   });
 
+  test('content hashed shared bundle urls', async () => {
+    const analyzer = inMemoryAnalyzer({
+      'a.js': `
+        import {c} from './c.js';
+        console.log(c);
+      `,
+      'b.js': `
+        import {c} from './c.js';
+        console.log(c);
+      `,
+      'c.js': `
+        export const c = 'c';
+      `,
+    });
+    const aUrl = analyzer.resolveUrl('a.js')!;
+    const bUrl = analyzer.resolveUrl('b.js')!;
+    const cUrl = analyzer.resolveUrl('c.js')!;
+    const bundler = new Bundler({
+      analyzer,
+      contentUrlMapper: generateContentHashSharedBundleUrlMapper(
+          analyzer.resolveUrl('shared_bundle_')!),
+    });
+    const {manifest, documents} =
+        await bundler.bundle(await bundler.generateManifest([aUrl, bUrl]));
+    const sharedBundleUrl = manifest.getBundleForFile(cUrl)!.url;
+    assert.match(sharedBundleUrl, /\/shared_bundle_[0-9a-f]{6}\.js$/);
+    assert.deepEqual(
+        [...documents.keys()].sort(), [aUrl, bUrl, sharedBundleUrl].sort());
+    const sharedBundleFilename = sharedBundleUrl.split('/').pop();
+    assert.deepEqual(
+        documents.get(aUrl)!.content, heredoc`
+      import { c } from './${sharedBundleFilename}';
+      console.log(c);`);
+    assert.deepEqual(
+        documents.get(bUrl)!.content, heredoc`
+      import { c } from './${sharedBundleFilename}';
+      console.log(c);`);
+  });
+
+  test('bundles from a manifest loaded from JSON', async () => {
+    const analyzer = inMemoryAnalyzer({
+      'a.js': `
+        import {c} from './c.js';
+        console.log(c);
+      `,
+      'b.js': `
+        import {c} from './c.js';
+        console.log(c);
+      `,
+      'c.js': `
+        export const c = 'c';
+      `,
+    });
+    const aUrl = analyzer.resolveUrl('a.js')!;
+    const bUrl = analyzer.resolveUrl('b.js')!;
+    const bundler = new Bundler({analyzer});
+    const json = (await bundler.generateManifest([aUrl, bUrl]))
+                     .toVersionedJson(analyzer.urlResolver);
+    // Hand-edit the name the shared bundle exports `c` as.
+    json.bundles.find((b) => b.url === 'shared_bundle_1.js')!.bundledExports = {
+      'c.js': {c: 'cee'}
+    };
+    const manifest = BundleManifest.fromJson(
+        JSON.parse(JSON.stringify(json)), analyzer.urlResolver);
+    const {documents} = await bundler.bundle(manifest);
+    assert.deepEqual(documents.get(aUrl)!.content, heredoc`
+      import { cee as c } from './shared_bundle_1.js';
+      console.log(c);`);
+    assert.deepEqual(
+        documents.get(analyzer.resolveUrl('shared_bundle_1.js')!)!.content,
+        heredoc`
+          const c = 'c';
+          var c$1 = {
+            c: c
+          };
+          export { c$1 as $c, c as cee };`);
+  });
+
+  test('treeshake', async () => {
+    const analyzer = inMemoryAnalyzer({
+      'a.js': `
+        import {used} from './c.js';
+        import * as dNamespace from './d.js';
+        export const a = used + dNamespace.d;
+        export const alsoPublic = 'a';
+      `,
+      'b.js': `
+        import {used} from './c.js';
+        import {d} from './d.js';
+        console.log(used, d);
+      `,
+      'c.js': `
+        export const used = 'used';
+        export const unused = 'unused';
+        export default function unusedDefault() {}
+      `,
+      'd.js': `
+        export const d = 'd';
+        export const dUnused = 'dUnused';
+      `,
+    });
+    const aUrl = analyzer.resolveUrl('a.js')!;
+    const bUrl = analyzer.resolveUrl('b.js')!;
+    const sharedBundleUrl = analyzer.resolveUrl('shared_bundle_1.js')!;
+    const bundler = new Bundler({analyzer, treeshake: true});
+    const {documents} =
+        await bundler.bundle(await bundler.generateManifest([aUrl, bUrl]));
+    // Entrypoint modules keep all of their exports.
+    assert.deepEqual(documents.get(aUrl)!.content, heredoc`
+      import { used, d } from './shared_bundle_1.js';
+      const a = used + d;
+      const alsoPublic = 'a';
+      var a$1 = {
+        a: a,
+        alsoPublic: alsoPublic
+      };
+      export { a$1 as $a, a, alsoPublic };`);
+    // Only the imported exports of `c.js` are kept, while the whole namespace
+    // of `d.js` is imported.
+    assert.deepEqual(documents.get(sharedBundleUrl)!.content, heredoc`
+      const used = 'used';
+      const d = 'd';
+      const dUnused = 'dUnused';
+      var d$1 = {
+        d: d,
+        dUnused: dUnused
+      };
+      export { d$1 as $d, used, d, dUnused };`);
+  });
+
   suite('dynamic imports', () => {
     test('await expression', async () => {
       const analyzer = inMemoryAnalyzer({
@@ -15,14 +15,18 @@
 /// <reference path="../../node_modules/@types/node/index.d.ts" />
 /// <reference path="../../node_modules/@types/mocha/index.d.ts" />
 import * as chai from 'chai';
+import * as dom5 from 'dom5';
 import * as parse5 from 'parse5';
 
 import {AssignedBundle, BundleManifest} from '../bundle-manifest';
 import {Bundler} from '../bundler';
+import {rewriteCssTextBaseUrl} from '../css-utils';
 import {bundle, HtmlBundler} from '../html-bundler';
+import * as matchers from '../matchers';
 
 import {parse} from '../parse5-utils';
 import {getFileUrl} from '../url-utils';
+import {getCspHash, getIntegrity} from '../utils';
 import {heredoc, inMemoryAnalyzer} from './test-utils';
 
 chai.config.showDiff = true;
@@ -108,6 +112,298 @@ suite('HtmlBundler', () => {
     `);
   });
 
+  test('inline CSS @import rules recursively', async () => {
+    const analyzer = inMemoryAnalyzer({
+      'index.html': `<link rel="stylesheet" href="styles/main.css">`,
+      'styles/main.css': `
+        @import "excluded/ext.css";
+        @import url('base.css');
+        @import url("print.css") print;
+        @import 'grid.css' supports(display: grid) screen;
+        @import "missing.css";
+        @import "https://fonts.example.com/font.css";
+        .main { background: url(main.png); }
+      `,
+      'styles/base.css': `
+        @import "main.css";
+        .base { background: url(../images/base.png); }
+      `,
+      'styles/print.css': `
+        @import "excluded/ext.css" screen;
+        @import "deep/nested.css";
+        .print { color: black; }
+      `,
+      'styles/deep/nested.css': `
+        .nested { background: url(nested.png); }
+      `,
+      'styles/grid.css': `
+        .grid { display: grid; }
+      `,
+    });
+    const resolve = (url: string) => analyzer.resolveUrl(url)!;
+    const bundler =
+        new Bundler({analyzer, excludes: [resolve('styles/excluded/')]});
+    const indexUrl = resolve('index.html');
+    const manifest = await bundler.generateManifest([indexUrl]);
+    const {content} = await bundle(bundler, manifest, indexUrl);
+    const lines = content.split('\n').filter((line) => line.trim() !== '');
+    assert.deepEqual(lines, [
+      '<style>@import url("styles/excluded/ext.css");',
+      '@import url("styles/excluded/ext.css") print and screen;',
+      '@import url("styles/missing.css");',
+      '@import url("https://fonts.example.com/font.css");',
+      '.base { background: url("images/base.png"); }',
+      '@media print {',
+      '.nested { background: url("styles/deep/nested.png"); }',
+      '.print { color: black; }',
+      '}',
+      '@supports (display: grid) {',
+      '@media screen {',
+      '.grid { display: grid; }',
+      '}',
+      '}',
+      '.main { background: url("styles/main.png"); }',
+      '</style>',
+    ]);
+    const {inlinedStyles, missingImports} = manifest.bundles.get(indexUrl)!;
+    assert.deepEqual([...inlinedStyles].sort(), [
+      'styles/base.css',
+      'styles/deep/nested.css',
+      'styles/grid.css',
+      'styles/main.css',
+      'styles/print.css',
+    ].map(resolve));
+    assert.deepEqual([...missingImports], [resolve('styles/missing.css')]);
+  });
+
+  test('inline small assets as data URIs', async () => {
+    const analyzer = inMemoryAnalyzer({
+      'index.html': `
+        <link rel="import" href="components/my-element.html">
+        <img src="images/small.svg">
+        <img src="images/large.svg">
+        <img src="images/binary.png">
+        <div style="background: url('images/small.svg')"></div>
+        <style>
+          .a { background: url(images/small.svg); }
+          .b { background: url(https://example.com/b.png); }
+        </style>
+        <script src="app.js"></script>
+      `,
+      'components/my-element.html': `
+        <dom-module id="my-element">
+          <template>
+            <style>.c { background: url(icon.svg); }</style>
+            <img src="icon.svg">
+          </template>
+        </dom-module>
+      `,
+      'components/icon.svg': `<svg/>`,
+      // Binary assets which are not files can't be loaded without corrupting
+      // them, so they are not inlined.
+      'images/binary.png': `png`,
+      'images/small.svg': `<svg></svg>`,
+      'images/large.svg': `<svg><!-- larger than the limit --></svg>`,
+      'app.js': `console.log('app');`,
+    });
+    const resolve = (url: string) => analyzer.resolveUrl(url)!;
+    const bundler =
+        new Bundler({analyzer, inlineScripts: false, inlineAssetsMaxBytes: 20});
+    const indexUrl = resolve('index.html');
+    const manifest = await bundler.generateManifest([indexUrl]);
+    const {content} = await bundle(bundler, manifest, indexUrl);
+    const dataUri = (svg: string) =>
+        `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+    const small = dataUri('<svg></svg>');
+    const icon = dataUri('<svg/>');
+    assert.include(content, `<img src="${small}">`);
+    assert.include(content, '<img src="images/large.svg">');
+    assert.include(content, '<img src="images/binary.png">');
+    assert.include(
+        content, `<div style="background: url(&quot;${small}&quot;)">`);
+    assert.include(content, `.a { background: url("${small}"); }`);
+    assert.include(content, 'url(https://example.com/b.png)');
+    assert.include(content, '<script src="app.js">');
+    assert.include(content, `.c { background: url("${icon}"); }`);
+    assert.include(content, `<img src="${icon}">`);
+    assert.deepEqual(
+        [...manifest.bundles.get(indexUrl)!.inlinedAssets].sort(),
+        ['components/icon.svg', 'images/small.svg'].map(resolve));
+  });
+
+  suite('resource hints', () => {
+    const analyzer = inMemoryAnalyzer({
+      'app.html': `
+        <link rel="lazy-import" href="view.html">
+        <script type="module" src="app.js"></script>
+      `,
+      'app.js': `
+        import {b} from './b.js';
+        import('./lazy.js');
+      `,
+      'b.js': `
+        import {c} from './c.js';
+        export const b = c;
+      `,
+      'c.js': `export const c = 1;`,
+      'lazy.js': `
+        import {c} from './c.js';
+        import {d} from './d.js';
+        export const l = c + d;
+      `,
+      'd.js': `export const d = 1;`,
+      'view.html': `<script type="module">import {d} from './d.js';</script>`,
+      'other.html': `<script type="module" src="b.js"></script>`,
+    });
+    const resolve = (url: string) => analyzer.resolveUrl(url)!;
+    const entrypoints = ['app.html', 'app.js', 'b.js', 'other.html'];
+
+    test('preload static module bundles and prefetch lazy ones', async () => {
+      const bundler = new Bundler(
+          {analyzer, preloadModuleBundles: true, prefetchLazyBundles: true});
+      const manifest = await bundler.generateManifest(entrypoints.map(resolve));
+      const appUrl = resolve('app.html');
+      const {content} = await bundle(bundler, manifest, appUrl);
+      assert.deepEqual(stripSpace(content), stripSpace(`
+        <link rel="modulepreload" href="app.js">
+        <link rel="modulepreload" href="b.js">
+        <link rel="modulepreload" href="shared_bundle_1.js">
+        <link rel="prefetch" href="view.html">
+        <link rel="prefetch" href="lazy.js">
+        <link rel="lazy-import" href="view.html">
+        <script type="module" src="app.js"></script>
+      `));
+    });
+
+    test('preload module bundles as scripts in other formats', async () => {
+      const bundler = new Bundler(
+          {analyzer, outputFormat: 'system', preloadModuleBundles: true});
+      const manifest = await bundler.generateManifest(entrypoints.map(resolve));
+      const otherUrl = resolve('other.html');
+      const {content} = await bundle(bundler, manifest, otherUrl);
+      assert.deepEqual(stripSpace(content), stripSpace(`
+        <link rel="preload" href="b.js" as="script">
+        <link rel="preload" href="shared_bundle_1.js" as="script">
+        <script>System.import("./b.js");</script>
+      `));
+    });
+  });
+
+  test('add integrity attributes to bundle references', async () => {
+    const analyzer = inMemoryAnalyzer({
+      'a.html': `<link rel="import" href="shared.html">`,
+      'b.html': `<link rel="import" href="shared.html">`,
+      'shared.html': `<div>shared</div>`,
+    });
+    const bundler = new Bundler({analyzer, sri: true});
+    const {manifest, documents} =
+        await bundler.bundle(await bundler.generateManifest(
+            ['a.html', 'b.html'].map((url) => analyzer.resolveUrl(url)!)));
+    const sharedUrl = analyzer.resolveUrl('shared_bundle_1.html')!;
+    const integrity = getIntegrity(documents.get(sharedUrl)!.content);
+    assert.equal(manifest.bundles.get(sharedUrl)!.integrity, integrity);
+    const content = documents.get(analyzer.resolveUrl('a.html')!)!.content;
+    assert.include(
+        content,
+        `<link rel="import" href="shared_bundle_1.html" ` +
+            `integrity="${integrity}" crossorigin="anonymous">`);
+  });
+
+  suite('content security policy', () => {
+    const analyzer = inMemoryAnalyzer({
+      'index.html': `
+        <style>body { margin: 0; }</style>
+        <script>window.a = 1;</script>
+        <script src="b.js"></script>
+        <script type="module">import './c.js';</script>
+      `,
+      'b.js': `window.b = 2;`,
+      'c.js': `console.log(window.a + window.b);`,
+    });
+    const indexUrl = analyzer.resolveUrl('index.html')!;
+
+    test('move inline scripts to external files', async () => {
+      const bundler = new Bundler({analyzer, csp: 'external'});
+      const {manifest, documents} =
+          await bundler.bundle(await bundler.generateManifest([indexUrl]));
+      assert.deepEqual(
+          stripSpace(documents.get(indexUrl)!.content), stripSpace(`
+        <style>body { margin: 0; }</style>
+        <script src="index.inline-1.js"></script>
+        <script src="index.inline-2.js"></script>
+        <script type="module" src="index.inline-3.js"></script>
+      `));
+      const scriptContent = (url: string) =>
+          documents.get(analyzer.resolveUrl(url)!)!.content;
+      assert.equal(scriptContent('index.inline-1.js'), 'window.a = 1;');
+      assert.equal(scriptContent('index.inline-2.js'), 'window.b = 2;');
+      assert.include(
+          scriptContent('index.inline-3.js'),
+          'console.log(window.a + window.b);');
+      assert.deepEqual(
+          manifest.bundles.get(indexUrl)!.cspHashes,
+          [getCspHash('body { margin: 0; }')]);
+    });
+
+    test('record hashes of inline scripts and styles', async () => {
+      const bundler = new Bundler({analyzer, csp: 'hashes'});
+      const {manifest, documents} =
+          await bundler.bundle(await bundler.generateManifest([indexUrl]));
+      assert.equal(documents.size, 1);
+      const inlineCode = dom5.queryAll(
+          documents.get(indexUrl)!.ast,
+          dom5.predicates.OR(matchers.inlineScript, matchers.styleMatcher));
+      assert.equal(inlineCode.length, 4);
+      assert.deepEqual(
+          manifest.bundles.get(indexUrl)!.cspHashes,
+          inlineCode.map((node) => getCspHash(dom5.getTextContent(node))));
+    });
+
+    test('record hashes of the scripts plugins transform', async () => {
+      const bundler = new Bundler({
+        analyzer,
+        csp: 'hashes',
+        plugins: [{
+          transformBundle: (_url, document) => Object.assign({}, document, {
+            content: document.content.replace('window.a = 1;', 'window.a = 3;')
+          }),
+        }],
+      });
+      const {manifest} =
+          await bundler.bundle(await bundler.generateManifest([indexUrl]));
+      const {cspHashes} = manifest.bundles.get(indexUrl)!;
+      assert.include(cspHashes, getCspHash('window.a = 3;'));
+      assert.notInclude(cspHashes, getCspHash('window.a = 1;'));
+    });
+
+    test('leave inline scripts which can not be parsed', async () => {
+      const analyzer = inMemoryAnalyzer({
+        'index.html': `
+          <script>window.a = ;</script>
+          <script>window.b = 2;</script>
+        `,
+      });
+      const indexUrl = analyzer.resolveUrl('index.html')!;
+      const bundler = new Bundler({analyzer, csp: 'external'});
+      const {manifest, documents, warnings} =
+          await bundler.bundle(await bundler.generateManifest([indexUrl]));
+      assert.deepEqual(
+          stripSpace(documents.get(indexUrl)!.content), stripSpace(`
+        <script>window.a = ;</script>
+        <script src="index.inline-1.js"></script>
+      `));
+      assert.equal(
+          documents.get(analyzer.resolveUrl('index.inline-1.js')!)!.content,
+          'window.b = 2;');
+      assert.deepEqual(
+          warnings.map(({code, url}) => ({code, url})),
+          [{code: 'could-not-externalize-script', url: indexUrl}]);
+      assert.deepEqual(
+          manifest.bundles.get(indexUrl)!.cspHashes,
+          [getCspHash('window.a = ;')]);
+    });
+  });
+
   suite('unit tests of private rewriting methods', () => {
     const importDocUrl = getFileUrl('foo/bar/my-element/index.html');
     const mainDocUrl = getFileUrl('foo/bar/index.html');
@@ -153,8 +449,7 @@ suite('HtmlBundler', () => {
           }
         `;
 
-        const actual = htmlBundler['_rewriteCssTextBaseUrl'](
-            css, importDocUrl, mainDocUrl);
+        const actual = rewriteCssTextBaseUrl(css, importDocUrl, mainDocUrl);
         assert.deepEqual(actual, expected);
       });
 
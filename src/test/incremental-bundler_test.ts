@@ -0,0 +1,114 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+/// <reference path="../../node_modules/@types/chai/index.d.ts" />
+/// <reference path="../../node_modules/@types/node/index.d.ts" />
+/// <reference path="../../node_modules/@types/mocha/index.d.ts" />
+import {assert} from 'chai';
+import {Analyzer, InMemoryOverlayUrlLoader, PackageRelativeUrl, PackageUrlResolver, ResolvedUrl} from 'polymer-analyzer';
+
+import {Bundler} from '../bundler';
+import {IncrementalBundler} from '../incremental-bundler';
+
+import {heredoc} from './test-utils';
+
+suite('IncrementalBundler', () => {
+  let urlLoader: InMemoryOverlayUrlLoader;
+  let analyzer: Analyzer;
+  const urlResolver = new PackageUrlResolver({packageDir: '/memory/'});
+  const u = (url: string) => urlResolver.resolve(url as PackageRelativeUrl)!;
+  const setFile = (url: string, content: string) =>
+      urlLoader.urlContentsMap.set(u(url), heredoc`${content}`);
+  const relativeUrls =
+      (urls: Iterable<ResolvedUrl>) => [...urls]
+                                           .map(
+                                               (url) =>
+                                                   urlResolver.relative(url))
+                                           .sort();
+
+  setup(() => {
+    urlLoader = new InMemoryOverlayUrlLoader();
+    analyzer = new Analyzer({urlLoader, urlResolver});
+    setFile('a.html', `
+      <link rel="import" href="shared.html">
+      <div>a</div>
+    `);
+    setFile('b.html', `
+      <link rel="import" href="shared.html">
+      <div>b</div>
+    `);
+    setFile('shared.html', `
+      <script src="shared.js"></script>
+      <div>shared</div>
+    `);
+    setFile('shared.js', `console.log('shared');`);
+    setFile('c.html', `<div>c</div>`);
+  });
+
+  test('rebuilds only bundles which include changed files', async () => {
+    const incrementalBundler = new IncrementalBundler(
+        new Bundler({analyzer}), [u('a.html'), u('b.html')]);
+    const built = await incrementalBundler.build();
+    assert.deepEqual(
+        relativeUrls(built.documents.keys()),
+        ['a.html', 'b.html', 'shared_bundle_1.html']);
+
+    setFile('b.html', `
+      <link rel="import" href="shared.html">
+      <div>b changed</div>
+    `);
+    const rebuilt = await incrementalBundler.rebuild([u('b.html')]);
+    assert.deepEqual(relativeUrls(rebuilt.documents.keys()), ['b.html']);
+    assert.include(
+        rebuilt.documents.get(u('b.html'))!.content, '<div>b changed</div>');
+    assert.deepEqual(
+        relativeUrls(rebuilt.manifest.bundles.keys()),
+        ['a.html', 'b.html', 'shared_bundle_1.html']);
+  });
+
+  test('rebuilds bundles which inlined changed files', async () => {
+    const incrementalBundler = new IncrementalBundler(
+        new Bundler({analyzer}), [u('a.html'), u('b.html')]);
+    await incrementalBundler.build();
+
+    setFile('shared.js', `console.log('shared changed');`);
+    const rebuilt = await incrementalBundler.rebuild([u('shared.js')]);
+    assert.deepEqual(
+        relativeUrls(rebuilt.documents.keys()), ['shared_bundle_1.html']);
+    assert.include(
+        rebuilt.documents.get(u('shared_bundle_1.html'))!.content,
+        `console.log('shared changed');`);
+    // What was recorded for bundles which were not produced again is kept.
+    assert.deepEqual(
+        rebuilt.manifest.toJson(urlResolver)['a.html'], ['a.html']);
+    assert.deepEqual(
+        rebuilt.manifest.toJson(urlResolver)['shared_bundle_1.html'],
+        ['shared.html', 'shared.js']);
+  });
+
+  test('rebuilds all bundles when the bundles change', async () => {
+    const incrementalBundler = new IncrementalBundler(
+        new Bundler({analyzer}), [u('a.html'), u('b.html')]);
+    await incrementalBundler.build();
+
+    setFile('b.html', `
+      <link rel="import" href="c.html">
+      <div>b</div>
+    `);
+    const rebuilt = await incrementalBundler.rebuild([u('b.html')]);
+    assert.deepEqual(
+        relativeUrls(rebuilt.documents.keys()), ['a.html', 'b.html']);
+    assert.include(rebuilt.documents.get(u('a.html'))!.content, 'shared');
+    assert.include(rebuilt.documents.get(u('b.html'))!.content, '<div>c</div>');
+  });
+});
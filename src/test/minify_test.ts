@@ -0,0 +1,192 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+/// <reference path="../../node_modules/@types/chai/index.d.ts" />
+/// <reference path="../../node_modules/@types/node/index.d.ts" />
+/// <reference path="../../node_modules/@types/mocha/index.d.ts" />
+import {assert} from 'chai';
+import * as dom5 from 'dom5';
+import {serialize} from 'parse5';
+import {MappingItem, SourceMapConsumer} from 'source-map';
+
+import {Bundler} from '../bundler';
+import {collapseWhitespace, minifyCss} from '../minify';
+import {parse} from '../parse5-utils';
+import {getExistingSourcemap} from '../source-map';
+import {heredoc, inMemoryAnalyzer} from './test-utils';
+
+suite('minify', () => {
+
+  test('minifyCss keeps license comments', () => {
+    assert.equal(
+        minifyCss(heredoc`
+          /* @license BSD */
+          /* A comment. */
+          :host {
+            color: red; /* Red. */
+            --mixin: {
+              margin: 0;
+            };
+          }
+          @media (max-width: 600px) {
+            div  >  p,
+            a { margin : 0 auto; }
+          }
+        `),
+        '/* @license BSD */:host{color:red;--mixin:{margin:0;};}' +
+            '@media (max-width: 600px){div > p, a{margin:0 auto;}}');
+  });
+
+  test('collapseWhitespace keeps preformatted text', () => {
+    const ast = parse(heredoc`
+      <html>
+        <head>
+          <title>  Title  </title>
+        </head>
+        <body>
+          <p>
+            Some   text&nbsp;&nbsp;here.
+          </p>
+          <pre>  keep
+            this  </pre>
+          <template><span>  a  </span></template>
+        </body>
+      </html>
+    `);
+    collapseWhitespace(ast);
+    assert.equal(
+        serialize(ast),
+        '<html><head><title> Title </title></head> <body> ' +
+            '<p> Some text&nbsp;&nbsp;here. </p> ' +
+            '<pre>  keep\n      this  </pre> ' +
+            '<template><span> a </span></template> </body></html>');
+  });
+
+  test('escapes the content of minified inline scripts', async () => {
+    const analyzer = inMemoryAnalyzer({
+      'index.html': `
+        <script src="a.js"></script>
+        <script>
+          console.log('<\\/script>');
+        </script>
+      `,
+      'a.js': `
+        console.log('</script>');
+      `,
+    });
+    const indexUrl = analyzer.resolveUrl('index.html')!;
+    const bundler = new Bundler({analyzer, minify: {js: true}});
+    const {documents} =
+        await bundler.bundle(await bundler.generateManifest([indexUrl]));
+    const scripts = dom5.queryAll(
+        parse(documents.get(indexUrl)!.content),
+        dom5.predicates.hasTagName('script'));
+    assert.deepEqual(
+        scripts.map((script) => dom5.getTextContent(script)),
+        [`console.log('<\\/script>');`, `console.log('<\\/script>');`]);
+  });
+
+  test('minifies ES6 module bundles', async () => {
+    const analyzer = inMemoryAnalyzer({
+      'a.js': `
+        /** @license BSD */
+        // A comment.
+        export function greet(name) {
+          return 'Hello, ' + name;
+        }
+      `,
+    });
+    const aUrl = analyzer.resolveUrl('a.js')!;
+    const bundler = new Bundler({analyzer, minify: {js: true}});
+    const {documents} =
+        await bundler.bundle(await bundler.generateManifest([aUrl]));
+    assert.equal(
+        documents.get(aUrl)!.content,
+        `/** @license BSD */function greet(name){return'Hello, '+name}` +
+            `var a={greet:greet};export{a as $a,greet};`);
+  });
+
+  test('minifies html and css tagged templates', async () => {
+    const analyzer = inMemoryAnalyzer({
+      'a.js': `
+        const html = (strings, ...values) => strings.raw.join('');
+        const css = html;
+        const Polymer = {html};
+        export const template = html\`
+          <!-- @license BSD -->
+          <!-- A comment. -->
+          <style>
+            /* A rule. */
+            :host { color: \${'red'}; }
+          </style>
+          <div title="\${'a'} \${'b'}">
+            \${Polymer.html\`<span>  x  </span>\`}
+          </div>
+        \`;
+        export const style = css\`
+          /* A rule. */
+          div {
+            margin: 0;
+          }
+        \`;
+        export const text = html\`<pre>
+          Keep   this.
+        </pre>\`;
+      `,
+    });
+    const aUrl = analyzer.resolveUrl('a.js')!;
+    const bundler = new Bundler({analyzer, minify: {templates: true}});
+    const {documents} =
+        await bundler.bundle(await bundler.generateManifest([aUrl]));
+    const content = documents.get(aUrl)!.content;
+    assert.include(
+        content,
+        'html` <!-- @license BSD --> <style> ' +
+            ':host { color: ${\'red\'}; } </style> ' +
+            '<div title="${\'a\'} ${\'b\'}"> ' +
+            '${Polymer.html`<span> x </span>`} </div> `');
+    assert.include(content, 'css` div { margin: 0; } `');
+    assert.include(content, 'html`<pre>\n  Keep   this.\n</pre>`');
+  });
+
+  test('keeps source maps of modules with minified templates', async () => {
+    const analyzer = inMemoryAnalyzer({
+      'a.js': `
+        const html = (strings) => strings.raw.join('');
+        export const template = html\`
+          <div>
+            <!-- A comment. -->
+          </div>
+        \`;
+        console.log(template);
+      `,
+    });
+    const aUrl = analyzer.resolveUrl('a.js')!;
+    const bundler =
+        new Bundler({analyzer, minify: {templates: true}, sourcemaps: true});
+    const {documents} =
+        await bundler.bundle(await bundler.generateManifest([aUrl]));
+    const content = documents.get(aUrl)!.content;
+    assert.include(content, 'html` <div> </div> `');
+    const sourcemap = await getExistingSourcemap(analyzer, '', content);
+    const mappings: MappingItem[] = [];
+    new SourceMapConsumer(sourcemap!).eachMapping((m) => mappings.push(m));
+    const log = mappings.find((m) => m.name === 'log')!;
+    const generatedLine = content.split('\n')[log.generatedLine - 1];
+    assert.equal(generatedLine.indexOf('log'), log.generatedColumn);
+    assert.equal(log.source, aUrl);
+    assert.deepEqual(
+        [log.originalLine, log.originalColumn],
+        [7, 'console.log(template);'.indexOf('log')]);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+/// <reference path="../../node_modules/@types/chai/index.d.ts" />
+/// <reference path="../../node_modules/@types/node/index.d.ts" />
+/// <reference path="../../node_modules/@types/mocha/index.d.ts" />
+import {assert} from 'chai';
+import {ResolvedUrl} from 'polymer-analyzer';
+
+import {Bundler} from '../bundler';
+import {BundlerPlugin} from '../plugins';
+import {inMemoryAnalyzer} from './test-utils';
+
+suite('BundlerPlugin', () => {
+
+  const analyzer = inMemoryAnalyzer({
+    'index.html': `
+      <link rel="import" href="greeting.html">
+      <script type="module">
+        import {name} from 'virtual:name';
+        console.log(name);
+      </script>
+    `,
+    'greeting.html': `<p>Hello, {{name}}!</p>`,
+    'name.js': `export const name = 'name';`,
+  });
+  const resolve = (url: string) => analyzer.resolveUrl(url)!;
+
+  test('runs the hooks of the plugins in order', async () => {
+    const calls: string[] = [];
+    const plugin = (id: string): BundlerPlugin => ({
+      transformSource: (url: ResolvedUrl, contents: string) => {
+        if (url === resolve('greeting.html')) {
+          calls.push(`${id}: transformSource`);
+          return contents.replace('!', ` ${id}!`);
+        }
+      },
+      generateManifest: async () => {
+        calls.push(`${id}: generateManifest`);
+        return undefined;
+      },
+      transformBundle: async (_url, document) => {
+        calls.push(`${id}: transformBundle`);
+        return Object.assign(
+            {}, document, {content: `<!-- ${id} -->\n${document.content}`});
+      },
+    });
+    const bundler = new Bundler({
+      analyzer,
+      plugins: [plugin('a'), plugin('b')],
+      inlineScripts: false,
+    });
+    const {documents} = await bundler.bundle(
+        await bundler.generateManifest([resolve('greeting.html')]));
+    assert.deepEqual(calls, [
+      'a: transformSource',
+      'b: transformSource',
+      'a: generateManifest',
+      'b: generateManifest',
+      'a: transformBundle',
+      'b: transformBundle',
+    ]);
+    assert.equal(
+        documents.get(resolve('greeting.html'))!.content,
+        '<!-- b -->\n<!-- a -->\n<p>Hello, {{name}} a b!</p>');
+  });
+
+  test('transforms text assets with plugins', async () => {
+    const analyzer = inMemoryAnalyzer({
+      'index.html': `<img src="icon.svg">`,
+      'icon.svg': `<svg fill="{{color}}"/>`,
+    });
+    const bundler = new Bundler({
+      analyzer,
+      inlineAssetsMaxBytes: 100,
+      plugins: [{
+        transformSource: (_url, contents) =>
+            contents.replace('{{color}}', 'red'),
+      }],
+    });
+    const indexUrl = analyzer.resolveUrl('index.html')!;
+    const {documents} =
+        await bundler.bundle(await bundler.generateManifest([indexUrl]));
+    const svg = Buffer.from(`<svg fill="red"/>`).toString('base64');
+    assert.include(
+        documents.get(indexUrl)!.content,
+        `<img src="data:image/svg+xml;base64,${svg}">`);
+  });
+
+  test('resolves module imports with plugins', async () => {
+    const bundler = new Bundler({
+      analyzer,
+      plugins: [
+        {resolveId: () => undefined},
+        {
+          resolveId: (importee: string) =>
+              importee === 'virtual:name' ? resolve('name.js') : undefined,
+        },
+      ],
+    });
+    const {documents} = await bundler.bundle(
+        await bundler.generateManifest([resolve('index.html')]));
+    const content = documents.get(resolve('index.html'))!.content;
+    assert.include(content, `const name = 'name';`);
+    assert.notInclude(content, 'virtual:name');
+  });
+
+  test('bundles modules resolved by plugins only once', async () => {
+    const analyzer = inMemoryAnalyzer({
+      'a.js': `import {name} from 'virtual:name'; console.log('a', name);`,
+      'b.js': `import {name} from 'virtual:name'; console.log('b', name);`,
+      'name.js': `export const name = 'name';`,
+    });
+    const resolve = (url: string) => analyzer.resolveUrl(url)!;
+    const bundler = new Bundler({
+      analyzer,
+      plugins: [{
+        resolveId: (importee: string) =>
+            importee === 'virtual:name' ? resolve('name.js') : undefined,
+      }],
+    });
+    const manifest =
+        await bundler.generateManifest(['a.js', 'b.js'].map(resolve));
+    assert.deepEqual(
+        [...manifest.bundles.get(resolve('shared_bundle_1.js'))!.files],
+        [resolve('name.js')]);
+    const {documents} = await bundler.bundle(manifest);
+    for (const url of ['a.js', 'b.js']) {
+      const content = documents.get(resolve(url))!.content;
+      assert.include(content, `from './shared_bundle_1.js';`);
+      assert.notInclude(content, `const name = 'name';`);
+    }
+  });
+});
@@ -15,11 +15,12 @@
 /// <reference path="../../node_modules/@types/node/index.d.ts" />
 /// <reference path="../../node_modules/@types/mocha/index.d.ts" />
 import * as chai from 'chai';
-import {execSync} from 'child_process';
+import {execSync, spawnSync} from 'child_process';
 import * as fs from 'fs';
 import * as os from 'os';
 
 import {ensureTrailingSlash, resolvePath} from '../url-utils';
+import {hash} from '../utils';
 
 chai.config.showDiff = true;
 
@@ -64,6 +65,24 @@ suite('polymer-bundler CLI', () => {
         assert.include(stdout, 'src="external/external.js"');
       });
 
+  test(
+      'Does not bundle shared stylesheets and scripts if --inline-scripts ' +
+          'or --inline-css are not set',
+      async () => {
+        const projectRoot = resolvePath('test/html/shared-external');
+        const tempdir = getTempDir();
+        execSync(
+            `cd ${projectRoot} && ` +
+            `node ${cliPath} --in-file a.html --in-file b.html ` +
+            `--out-dir ${tempdir}`);
+        assert.deepEqual(fs.readdirSync(tempdir).sort(), ['a.html', 'b.html']);
+        for (const file of ['a.html', 'b.html']) {
+          const html = fs.readFileSync(resolvePath(tempdir, file)).toString();
+          assert.include(html, '<link rel="stylesheet" href="style.css">');
+          assert.include(html, '<script src="classic.js"></script>');
+        }
+      });
+
   suite('--out-dir', () => {
     test('writes to the dir even for single bundle', async () => {
       const projectRoot = resolvePath(__dirname, '../../test/html');
@@ -153,6 +172,340 @@ suite('polymer-bundler CLI', () => {
     });
   });
 
+  suite('--manifest-in', () => {
+    test('bundles according to a versioned manifest', async () => {
+      const projectRoot = resolvePath(__dirname, '../../test/html/imports');
+      const tempdir = getTempDir();
+      const manifestPath = resolvePath(tempdir, 'bundle-manifest.json');
+      execSync(
+          `cd ${projectRoot} && ` +
+          `node ${cliPath} ` +
+          `--in-file importing-fragments/fragment-a.html ` +
+          `--in-file importing-fragments/fragment-b.html ` +
+          `--out-dir ${tempdir}/first/ ` +
+          `--manifest-out ${manifestPath} --versioned-manifest`)
+          .toString();
+      const manifest = JSON.parse(fs.readFileSync(manifestPath).toString());
+      assert.equal(manifest.version, 2);
+      assert.deepEqual(manifest.bundles.map((b: {url: string}) => b.url), [
+        'importing-fragments/fragment-a.html',
+        'importing-fragments/fragment-b.html',
+        'shared_bundle_1.html',
+      ]);
+
+      // Rename the shared bundle before bundling with the manifest.
+      manifest.bundles[2].url = 'shared/util.html';
+      fs.writeFileSync(manifestPath, JSON.stringify(manifest));
+      execSync(
+          `cd ${projectRoot} && ` +
+          `node ${cliPath} --manifest-in ${manifestPath} ` +
+          `--out-dir ${tempdir}/second/`)
+          .toString();
+      const fragmentA = fs.readFileSync(resolvePath(
+                                            tempdir,
+                                            'second/importing-fragments/' +
+                                                'fragment-a.html'))
+                            .toString();
+      assert.include(fragmentA, '../shared/util.html');
+      assert.isTrue(
+          fs.existsSync(resolvePath(tempdir, 'second/shared/util.html')));
+    });
+  });
+
+  suite('--hash-shared-bundle-urls', () => {
+    test('names shared bundles after their content', async () => {
+      const projectRoot = resolvePath(__dirname, '../../test/html/imports');
+      const tempdir = getTempDir();
+      const manifestPath = resolvePath(tempdir, 'bundle-manifest.json');
+      execSync(
+          `cd ${projectRoot} && ` +
+          `node ${cliPath} ` +
+          `--in-file importing-fragments/fragment-a.html ` +
+          `--in-file importing-fragments/fragment-b.html ` +
+          `--hash-shared-bundle-urls content ` +
+          `--out-dir ${tempdir}/bundled/ ` +
+          `--manifest-out ${manifestPath}`)
+          .toString();
+      const manifestJson = fs.readFileSync(manifestPath).toString();
+      const manifest = JSON.parse(manifestJson);
+      const sharedBundleUrls =
+          Object.keys(manifest).filter((url) => url.startsWith('shared_'));
+      assert.equal(sharedBundleUrls.length, 1);
+      assert.match(sharedBundleUrls[0], /^shared_bundle_[0-9a-f]{6}\.html$/);
+      assert.deepEqual(
+          manifest[sharedBundleUrls[0]],
+          ['importing-fragments/shared-util.html']);
+      const fragmentA = fs.readFileSync(resolvePath(
+                                            tempdir,
+                                            'bundled/importing-fragments/' +
+                                                'fragment-a.html'))
+                            .toString();
+      assert.include(fragmentA, `../${sharedBundleUrls[0]}`);
+    });
+  });
+
+  suite('--fail-on-warnings', () => {
+    const projectRoot = resolvePath(__dirname, '../../test/html');
+    const bundle = (...args: string[]) => spawnSync(
+        'node', [cliPath, 'absolute-paths.html', ...args], {cwd: projectRoot});
+
+    test('prints warnings with their locations', async () => {
+      const {status, stdout, stderr} = bundle();
+      assert.equal(status, 0);
+      assert.include(stdout.toString(), 'absolute-paths/script.js');
+      assert.include(
+          stderr.toString(),
+          'absolute-paths/import.html:3:1: warning missing-import: ' +
+              'Could not load this/does/not/exist.html');
+    });
+
+    test('exits with an error when there are warnings', async () => {
+      const {status, stdout} = bundle('--fail-on-warnings');
+      assert.equal(status, 1);
+      assert.include(stdout.toString(), 'absolute-paths/script.js');
+    });
+
+    test('exits with an error when there are errors', async () => {
+      const {status, stderr} =
+          bundle('--in-file', 'does-not-exist.html', '--out-dir', getTempDir());
+      assert.equal(status, 1);
+      assert.include(
+          stderr.toString(), 'does-not-exist.html:1:1: error could-not-load: ');
+    });
+  });
+
+  suite('--budgets', () => {
+    const projectRoot = resolvePath(__dirname, '../../test/html/imports');
+    const bundle = (budgets: {}) => {
+      const tempdir = getTempDir();
+      const budgetsPath = resolvePath(tempdir, 'budgets.json');
+      fs.writeFileSync(budgetsPath, JSON.stringify(budgets));
+      return spawnSync(
+          'node',
+          [
+            cliPath,
+            '--in-file',
+            'importing-fragments/fragment-a.html',
+            '--in-file',
+            'importing-fragments/fragment-b.html',
+            '--budgets',
+            budgetsPath,
+            '--out-dir',
+            resolvePath(tempdir, 'bundled'),
+          ],
+          {cwd: projectRoot});
+    };
+
+    test('prints bundle sizes', async () => {
+      const {status, stderr} = bundle(
+          {bundles: [{pattern: '**', maxBytes: 100000, maxGzipBytes: 10000}]});
+      assert.equal(status, 0);
+      assert.match(
+          stderr.toString(),
+          /^bundle importing-fragments\/fragment-a\.html +\d+ +\d+$/m);
+      assert.match(
+          stderr.toString(),
+          /^entrypoint importing-fragments\/fragment-a\.html +\d+ +\d+$/m);
+      assert.notInclude(stderr.toString(), 'Budget exceeded');
+    });
+
+    test('reports budgets files which can not be read', async () => {
+      const tempdir = getTempDir();
+      const budgetsPath = resolvePath(tempdir, 'budgets.json');
+      fs.writeFileSync(budgetsPath, '{"bundles": [');
+      const {status, stderr} = spawnSync(
+          'node',
+          [
+            cliPath,
+            'importing-fragments/fragment-a.html',
+            '--budgets',
+            budgetsPath
+          ],
+          {cwd: projectRoot});
+      assert.equal(status, 1);
+      assert.include(
+          stderr.toString(), `Unable to read budgets file ${budgetsPath}: `);
+      assert.notInclude(stderr.toString(), '    at ');
+    });
+
+    test('exits with an error when a budget is exceeded', async () => {
+      const {status, stderr} = bundle(
+          {entrypoints: [{pattern: '**/fragment-b.html', maxGzipBytes: 10}]});
+      assert.equal(status, 1);
+      assert.include(
+          stderr.toString(),
+          'Budget exceeded: entrypoint importing-fragments/fragment-b.html ' +
+              'is over 10 gzip bytes (budget "**/fragment-b.html").');
+      assert.notInclude(stderr.toString(), 'fragment-a.html is over');
+    });
+  });
+
+  suite('--config', () => {
+    const projectRoot = resolvePath(__dirname, '../../test/html');
+    const writeConfig = (config: {}) => {
+      const tempdir = getTempDir();
+      fs.writeFileSync(
+          resolvePath(tempdir, 'polymer-bundler.config.json'),
+          JSON.stringify(config));
+      return tempdir;
+    };
+
+    test('reads polymer-bundler.config.json by default', async () => {
+      const tempdir = writeConfig({
+        root: projectRoot,
+        entrypoints: ['external.html'],
+        inlineScripts: true,
+      });
+      const {status, stdout} = spawnSync('node', [cliPath], {cwd: tempdir});
+      assert.equal(status, 0);
+      assert.include(stdout.toString(), 'href="external/external.css"');
+      assert.notInclude(stdout.toString(), 'src="external/external.js"');
+    });
+
+    test('options on the command line override the file', async () => {
+      const tempdir = writeConfig({
+        root: projectRoot,
+        entrypoints: ['external.html'],
+        inlineScripts: true,
+      });
+      const {status, stdout} = spawnSync(
+          'node',
+          [
+            cliPath,
+            '--config',
+            resolvePath(tempdir, 'polymer-bundler.config.json'),
+            'absolute-paths.html',
+          ],
+          {cwd: projectRoot});
+      assert.equal(status, 0);
+      assert.include(stdout.toString(), 'hello from /absolute-paths/script.js');
+      assert.notInclude(stdout.toString(), 'External Resources');
+    });
+
+    test('exits with an error for unknown options', async () => {
+      const tempdir = writeConfig({entrypoint: 'external.html'});
+      const {status, stderr} = spawnSync('node', [cliPath], {cwd: tempdir});
+      assert.equal(status, 1);
+      assert.include(
+          stderr.toString(), 'config.entrypoint is not a known option.');
+    });
+  });
+
+  suite('--strategy', () => {
+    const projectRoot = resolvePath(__dirname, '../../test/html/imports');
+    const bundle = (...args: string[]) => {
+      const tempdir = getTempDir();
+      const manifestPath = resolvePath(tempdir, 'bundle-manifest.json');
+      const result = spawnSync(
+          'node',
+          [
+            cliPath,
+            '--in-file',
+            'importing-fragments/fragment-a.html',
+            '--in-file',
+            'importing-fragments/fragment-b.html',
+            '--out-dir',
+            resolvePath(tempdir, 'bundled'),
+            '--manifest-out',
+            manifestPath,
+            ...args,
+          ],
+          {cwd: projectRoot});
+      const manifest = result.status === 0 ?
+          JSON.parse(fs.readFileSync(manifestPath).toString()) :
+          undefined;
+      return {result, manifest};
+    };
+
+    test('composes the strategy with eager merges', async () => {
+      const {manifest} =
+          bundle('--eager-merge', 'importing-fragments/fragment-a.html');
+      assert.deepEqual(manifest, {
+        'importing-fragments/fragment-a.html': [
+          'importing-fragments/fragment-a.html',
+          'importing-fragments/shared-util.html',
+        ],
+        'importing-fragments/fragment-b.html': [
+          'importing-fragments/fragment-b.html',
+        ],
+      });
+    });
+
+    test('merges dependencies of the minimum entrypoints', async () => {
+      const {manifest} = bundle(
+          '--strategy',
+          'shell',
+          '--shell',
+          'importing-fragments/shell.html',
+          '--min-entrypoints',
+          '4');
+      assert.deepEqual(
+          manifest['importing-fragments/shell.html'],
+          ['importing-fragments/shell.html']);
+      assert.deepEqual(manifest['shared_bundle_1.html'], [
+        'importing-fragments/shared-util.html',
+      ]);
+    });
+
+    test('exits with an error for invalid combinations', async () => {
+      const {result} = bundle('--strategy', 'shell');
+      assert.equal(result.status, 1);
+      assert.include(
+          result.stderr.toString(), '--strategy shell requires --shell.');
+    });
+  });
+
+  suite('--push-manifest-out', () => {
+    test('writes out the push manifest to given path', async () => {
+      const projectRoot = resolvePath(__dirname, '../../test/html/imports');
+      const tempdir = getTempDir();
+      const pushManifestPath = resolvePath(tempdir, 'push-manifest.json');
+      execSync(
+          `cd ${projectRoot} && ` +
+          `node ${cliPath} --in-file eagerly-importing-a-fragment.html ` +
+          `--in-file importing-fragments/shell.html ` +
+          `--out-dir ${tempdir}/bundled/ ` +
+          `--push-manifest-out ${pushManifestPath}`);
+      const pushManifest =
+          JSON.parse(fs.readFileSync(pushManifestPath).toString());
+      assert.deepEqual(pushManifest['eagerly-importing-a-fragment.html'], {
+        'importing-fragments/shell.html': {type: 'document', weight: 1},
+        'importing-fragments/fragment-a.html': {type: 'document', weight: 1},
+      });
+    });
+  });
+
+  suite('--copy-assets', () => {
+    test('copies hashed assets and lists them in the manifest', async () => {
+      const projectRoot = resolvePath(__dirname, '../../test/html');
+      const tempdir = getTempDir();
+      const manifestPath = resolvePath(tempdir, 'bundle-manifest.json');
+      execSync(
+          `cd ${projectRoot} && ` +
+          `node ${cliPath} inline-assets.html --copy-assets ` +
+          `--hash-asset-urls --out-dir ${tempdir} ` +
+          `--manifest-out ${manifestPath}`);
+      const png =
+          fs.readFileSync(resolvePath(projectRoot, 'inline-assets/pixel.png'));
+      const assetPath = `inline-assets/pixel-${hash(png, 6)}.png`;
+      assert.deepEqual(fs.readFileSync(resolvePath(tempdir, assetPath)), png);
+      const html = fs.readFileSync(resolvePath(tempdir, 'inline-assets.html'))
+                       .toString();
+      assert.include(html, `<img src="${assetPath}">`);
+      const manifest = JSON.parse(fs.readFileSync(manifestPath).toString());
+      assert.deepEqual(manifest['_assets'], [assetPath]);
+    });
+
+    test('requires --out-dir', async () => {
+      const result = spawnSync(
+          'node', [cliPath, '--copy-assets', 'test/html/inline-assets.html']);
+      assert.equal(result.status, 1);
+      assert.include(
+          result.stderr.toString(),
+          '--copy-assets and --hash-asset-urls require --out-dir.');
+    });
+  });
+
   suite('--redirect', () => {
     test('handles URLs with arbitrary protocols and hosts', async () => {
       const projectRoot =
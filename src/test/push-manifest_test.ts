@@ -0,0 +1,75 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+/// <reference path="../../node_modules/@types/chai/index.d.ts" />
+/// <reference path="../../node_modules/@types/node/index.d.ts" />
+/// <reference path="../../node_modules/@types/mocha/index.d.ts" />
+import {assert} from 'chai';
+
+import {Bundler} from '../bundler';
+import {generatePushManifest} from '../push-manifest';
+import {inMemoryAnalyzer} from './test-utils';
+
+suite('generatePushManifest', () => {
+
+  const analyzer = inMemoryAnalyzer({
+    'index.html': `
+      <link rel="stylesheet" href="theme.css">
+      <link rel="lazy-import" href="view.html">
+      <script src="polyfill.js"></script>
+      <script type="module" src="app.js"></script>
+    `,
+    'view.html': `
+      <link rel="stylesheet" href="theme.css">
+      <script src="polyfill.js"></script>
+      <script type="module">import './util.js';</script>
+    `,
+    'app.js': `
+      import './util.js';
+      import('./lazy.js');
+    `,
+    'util.js': `export const util = 1;`,
+    'lazy.js': `export const lazy = 1;`,
+    'polyfill.js': `window.polyfilled = true;`,
+    'theme.css': `html { color: black; }`,
+  });
+  const resolve = (url: string) => analyzer.resolveUrl(url)!;
+
+  test('maps entrypoint bundles to what they load eagerly', async () => {
+    const bundler = new Bundler({analyzer, inlineScripts: false});
+    const manifest =
+        await bundler.generateManifest(['index.html', 'app.js'].map(resolve));
+    const {documents, manifest: bundledManifest} =
+        await bundler.bundle(manifest);
+    assert.deepEqual(
+        await generatePushManifest(
+            bundler.analyzer, bundledManifest, documents.keys()),
+        {
+          'app.js': {
+            'shared_bundle_2.js': {type: 'script', weight: 1},
+          },
+          // Classic scripts are only bundled when scripts are inlined.
+          'index.html': {
+            'app.js': {type: 'script', weight: 1},
+            'shared_bundle_1.css': {type: 'style', weight: 1},
+            'shared_bundle_2.js': {type: 'script', weight: 1},
+          },
+          // Lazily imported files are entrypoints of their own.
+          'lazy.js': {},
+          'view.html': {
+            'shared_bundle_1.css': {type: 'style', weight: 1},
+            'shared_bundle_2.js': {type: 'script', weight: 1},
+          },
+        });
+  });
+});
@@ -18,15 +18,17 @@ import * as chai from 'chai';
 import * as dom5 from 'dom5';
 import * as path from 'path';
 import {Analyzer, FsUrlLoader, FsUrlResolver, PackageRelativeUrl, ResolvedUrl} from 'polymer-analyzer';
-import {MappingItem, RawSourceMap, SourceMapConsumer} from 'source-map';
+import {MappingItem, RawSourceMap, SourceMapConsumer, SourceMapGenerator} from 'source-map';
 
 import {Bundler} from '../bundler';
 import {Options as BundlerOptions} from '../bundler';
 import {BundledDocument} from '../document-collection';
 import * as matchers from '../matchers';
-import {getExistingSourcemap} from '../source-map';
+import {getExistingSourcemap, toRawSourceMap} from '../source-map';
 import {resolvePath} from '../url-utils';
 
+import {heredoc, inMemoryAnalyzer} from './test-utils';
+
 chai.config.showDiff = true;
 
 const assert = chai.assert;
@@ -145,6 +147,32 @@ suite('Bundler', () => {
       }
     });
 
+    test('inline maps are updated when minified', async () => {
+      const {ast: doc, content: compiledHtml} = await bundle('combined.html', {
+        inlineScripts: true,
+        sourcemaps: true,
+        minify: {html: true, js: true},
+        analyzer: analyzer
+      });
+      const inlineScripts = dom5.queryAll(doc, matchers.inlineNonModuleScript);
+      assert.equal(inlineScripts.length, 7);
+
+      for (let i = 0; i < inlineScripts.length; i++) {
+        const content = dom5.getTextContent(inlineScripts[i]);
+        assert.match(content, /^console\.log\(.*\);\n\/\/# sourceMappingURL=/);
+        const sourcemap =
+            await getExistingSourcemap(analyzer, 'combined.html', content);
+
+        assert(sourcemap, 'scripts found');
+        await testMapping(sourcemap!, compiledHtml, 'console');
+        if (i < 2) {
+          // The scripts loaded from a file with a map, and from an inline
+          // script without any.
+          assert.include(sourcemap!.names, 'console');
+        }
+      }
+    });
+
     test('invalid maps are compiled correctly', async () => {
       const {ast: doc, content: compiledHtml} = await bundle(
           'invalid.html',
@@ -162,4 +190,124 @@ suite('Bundler', () => {
       }
     });
   });
+
+  suite('ES6 module sourcemaps', () => {
+    /**
+     * Returns the original position of the first mapping with the given name
+     * in the source map of the bundled document.
+     */
+    async function findOriginalPosition(
+        analyzer: Analyzer, document: BundledDocument, name: string) {
+      const sourcemap =
+          await getExistingSourcemap(analyzer, '', document.content);
+      assert(sourcemap, 'sourcemap found');
+      const mappings: MappingItem[] = [];
+      new SourceMapConsumer(sourcemap!).eachMapping((m) => mappings.push(m));
+      const mapping = mappings.find((m) => m.name === name);
+      assert(mapping, `mapping for ${name} found`);
+      return {
+        source: mapping!.source,
+        line: mapping!.originalLine,
+        column: mapping!.originalColumn,
+      };
+    }
+
+    test('module bundles map to the original modules', async () => {
+      const analyzer = inMemoryAnalyzer({
+        'a.js': `
+          import {b} from './b.js';
+          console.log(b);
+        `,
+        'b.js': `
+          export const bee = 'b';
+          export {bee as b};
+        `,
+      });
+      const aUrl = analyzer.resolveUrl('a.js')!;
+      const bundler = new Bundler({analyzer, sourcemaps: true});
+      const {documents} =
+          await bundler.bundle(await bundler.generateManifest([aUrl]));
+      const document = documents.get(aUrl)!;
+      assert.deepEqual(
+          await findOriginalPosition(analyzer, document, 'console'),
+          {source: aUrl, line: 2, column: 0});
+      assert.deepEqual(
+          await findOriginalPosition(analyzer, document, 'bee'),
+          {source: analyzer.resolveUrl('b.js')!, line: 1, column: 13});
+    });
+
+    test('existing module sourcemaps are chained', async () => {
+      const generator = new SourceMapGenerator();
+      generator.addMapping({
+        source: 'b.ts',
+        original: {line: 3, column: 4},
+        generated: {line: 1, column: 13},
+        name: 'bee',
+      });
+      const encodedMap =
+          Buffer.from(generator.toString(), 'utf8').toString('base64');
+      const analyzer = inMemoryAnalyzer({
+        'a.js': `
+          import {bee} from './b.js';
+          console.log(bee);
+        `,
+        'b.js': heredoc`
+          export const bee = 'b';
+          //# sourceMappingURL=data:application/json;base64,${encodedMap}
+        `,
+      });
+      const aUrl = analyzer.resolveUrl('a.js')!;
+      const bundler = new Bundler({analyzer, sourcemaps: true});
+      const {documents} =
+          await bundler.bundle(await bundler.generateManifest([aUrl]));
+      assert.deepEqual(
+          await findOriginalPosition(analyzer, documents.get(aUrl)!, 'bee'),
+          {source: analyzer.resolveUrl('b.ts')!, line: 3, column: 4});
+    });
+
+    test('inline module scripts map to their HTML document', async () => {
+      const analyzer = inMemoryAnalyzer({
+        'page.html': `
+          <p>hello</p>
+          <script type="module">
+            import {b} from './b.js';
+            console.log(b);
+          </script>
+        `,
+        'b.js': `
+          export const b = 'b';
+        `,
+      });
+      const pageUrl = analyzer.resolveUrl('page.html')!;
+      const bundler = new Bundler({analyzer, sourcemaps: true});
+      const {documents} =
+          await bundler.bundle(await bundler.generateManifest([pageUrl]));
+      const document = documents.get(pageUrl)!;
+      const [script] = dom5.queryAll(document.ast, matchers.moduleScript);
+      const sourcemap = await getExistingSourcemap(
+          analyzer, pageUrl, dom5.getTextContent(script));
+      const consumer = new SourceMapConsumer(sourcemap!);
+      const consoleLine = document.content.split('\n').findIndex(
+                              (line) => line.startsWith('console')) +
+          1;
+      assert.deepEqual(
+          consumer.originalPositionFor({line: consoleLine, column: 0}),
+          {source: pageUrl, line: 4, column: 2, name: 'console'});
+    });
+  });
+
+  test('source maps of other tools are checked for their version', () => {
+    const sourcemap = {
+      file: 'a.js',
+      sources: ['b.js'],
+      names: [],
+      mappings: 'AAAA',
+    };
+    assert.deepEqual(
+        toRawSourceMap(Object.assign({version: '3'}, sourcemap)),
+        Object.assign({version: 3, sourcesContent: undefined}, sourcemap));
+    assert.throws(
+        () => toRawSourceMap(Object.assign({version: 2}, sourcemap)),
+        'Unsupported source map version 2.');
+  });
 });
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+/// <reference path="../../node_modules/@types/chai/index.d.ts" />
+/// <reference path="../../node_modules/@types/node/index.d.ts" />
+/// <reference path="../../node_modules/@types/mocha/index.d.ts" />
+import {assert} from 'chai';
+
+import {Bundler} from '../bundler';
+import {formatWarning, Severity} from '../warnings';
+
+import {inMemoryAnalyzer} from './test-utils';
+
+suite('Warnings', () => {
+  const analyzer = inMemoryAnalyzer({
+    'a.html': `
+      <link rel="import" href="b.html">
+      <link rel="import" href="missing.html">
+    `,
+    'b.html': `
+      <script src="missing.js"></script>
+    `,
+    'c.js': `
+      import {d} from './d.js';
+      console.log(this, d);
+    `,
+    'd.js': `
+      export const d = 'd';
+    `,
+    'e.js': `
+      export const e = ;
+    `,
+  });
+  const resolve = (url: string) => analyzer.resolveUrl(url)!;
+
+  test('missing imports are reported where they are imported', async () => {
+    const bundler = new Bundler({analyzer});
+    const {warnings} = await bundler.bundle(
+        await bundler.generateManifest([resolve('a.html')]));
+    assert.deepEqual(
+        warnings.map((w) => formatWarning(w, analyzer.urlResolver)), [
+          'a.html:2:1: warning missing-import: Could not load missing.html',
+          'b.html:1:1: warning missing-import: Could not load missing.js',
+        ]);
+  });
+
+  test('rollup warnings are reported for their modules', async () => {
+    const bundler = new Bundler({analyzer});
+    const {warnings} =
+        await bundler.bundle(await bundler.generateManifest([resolve('c.js')]));
+    assert.deepEqual(
+        warnings.map(
+            ({code, severity, url, range}) => ({code, severity, url, range})),
+        [{
+          code: 'rollup-this-is-undefined',
+          severity: Severity.WARNING,
+          url: resolve('c.js'),
+          range: {start: {line: 1, column: 12}, end: {line: 1, column: 12}},
+        }]);
+  });
+
+  test('entrypoints which could not be loaded are reported', async () => {
+    const bundler = new Bundler({analyzer});
+    const manifest =
+        await bundler.generateManifest([resolve('d.js'), resolve('e.js')]);
+    assert.deepEqual(
+        manifest.warnings.map(
+            ({code, severity, url}) => ({code, severity, url})),
+        [{
+          code: 'could-not-load',
+          severity: Severity.ERROR,
+          url: resolve('e.js')
+        }]);
+    const {warnings} = await bundler.bundle(manifest);
+    assert.deepEqual(warnings, manifest.warnings);
+    assert.match(
+        formatWarning(warnings[0], analyzer.urlResolver),
+        /^e\.js:1:18: error could-not-load: Unable to get document/);
+  });
+
+  test('positions which are not known are left out', () => {
+    assert.equal(
+        formatWarning(
+            {
+              code: 'could-not-load',
+              message: 'Unable to get document',
+              severity: Severity.ERROR,
+              url: resolve('e.js'),
+              range: {
+                start: {line: NaN, column: NaN},
+                end: {line: NaN, column: NaN},
+              },
+            },
+            analyzer.urlResolver),
+        'e.js: error could-not-load: Unable to get document');
+  });
+});
@@ -11,6 +11,7 @@
  * subject to an additional IP rights grant found at
  * http://polymer.github.io/PATENTS.txt
  */
+import * as crypto from 'crypto';
 
 /**
  * Simple utility function used to find an item in a set with a predicate
@@ -26,6 +27,34 @@ export function find<T>(items: Iterable<T>, predicate: (item: T) => boolean): T|
   }
 }
 
+/**
+ * Returns the first `length` characters of the hex-encoded SHA-256 hash of the
+ * text or bytes.
+ */
+export function hash(text: string|Buffer, length: number): string {
+  return crypto.createHash('sha256').update(text).digest('hex').slice(
+      0, length);
+}
+
+/**
+ * Returns the Subresource Integrity metadata for the content, i.e. its
+ * base64-encoded SHA-384 hash prefixed by `sha384-`.
+ */
+export function getIntegrity(content: string|Buffer): string {
+  return 'sha384-' +
+      crypto.createHash('sha384').update(content).digest('base64');
+}
+
+/**
+ * Returns the Content Security Policy hash source for the text of an inline
+ * script or style, i.e. its base64-encoded SHA-256 hash prefixed by `sha256-`,
+ * to be single-quoted in the policy.
+ */
+export function getCspHash(content: string): string {
+  return 'sha256-' +
+      crypto.createHash('sha256').update(content).digest('base64');
+}
+
 /**
  * Converts string like `abc-xyz__omg` to `abcXyzOmg`.
  */
@@ -63,6 +92,22 @@ export function partitionMap<K, V>(
   return map;
 }
 
+/**
+ * Returns true if both sets contain exactly the same items.  This check is
+ * order-independent.
+ */
+export function setEquals(set1: Set<any>, set2: Set<any>): boolean {
+  if (set1.size !== set2.size) {
+    return false;
+  }
+  for (const item of set1) {
+    if (!set2.has(item)) {
+      return false;
+    }
+  }
+  return true;
+}
+
 /**
  * Performs an in-place rewrite of a target object's properties from a given
  * replacement node.  This is useful because there are some transformations
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+import {ResolvedUrl, Severity, SourcePosition, UrlResolver} from 'polymer-analyzer';
+
+export {Severity};
+
+/**
+ * A problem found while generating a manifest or bundling, like an import
+ * which could not be loaded.
+ */
+export interface Warning {
+  // Identifies the kind of problem, e.g. `missing-import`.  Warnings reported
+  // by rollup have their rollup code prefixed by `rollup-`.
+  code: string;
+  message: string;
+  severity: Severity;
+  // The URL of the file the problem was found in, if known.
+  url?: ResolvedUrl;
+  // Where in the file the problem was found, if known.  Lines and columns
+  // start from zero.
+  range?: {start: SourcePosition, end: SourcePosition};
+}
+
+/**
+ * Formats a warning as `path:line:column: severity code: message`, like
+ * compilers do, so that editors and terminals can link to the location.  The
+ * path is package relative and lines and columns start from one.  The line
+ * and column are left out when the position is unknown.
+ */
+export function formatWarning(
+    warning: Warning, urlResolver: UrlResolver): string {
+  let location = '';
+  if (warning.url) {
+    location = urlResolver.relative(warning.url);
+    // Some parse errors have no valid position.
+    if (warning.range && Number.isInteger(warning.range.start.line) &&
+        Number.isInteger(warning.range.start.column)) {
+      const {line, column} = warning.range.start;
+      location += `:${line + 1}:${column + 1}`;
+    }
+    location += ': ';
+  }
+  const severity = Severity[warning.severity].toLowerCase();
+  return `${location}${severity} ${warning.code}: ${warning.message}`;
+}
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+import * as fs from 'fs';
+import * as pathLib from 'path';
+
+export interface FolderWatcher { close(): void; }
+
+/**
+ * Watches the given folders and their sub-folders for changes to files.  Once
+ * no further changes have been seen for `delay` milliseconds, `callback` is
+ * called with the paths of all files which were created, changed or removed.
+ * Folders created after watching starts are watched as well.  Hidden folders
+ * and `node_modules` folders are not watched.
+ *
+ * Node's `recursive` watch option is not available on all platforms, so a
+ * watcher is kept for every folder instead.
+ */
+export function watchFolders(
+    folders: string[],
+    callback: (paths: string[]) => void,
+    delay: number = 100): FolderWatcher {
+  const watchers = new Map<string, fs.FSWatcher>();
+  let changedPaths = new Set<string>();
+  let timer: NodeJS.Timer|undefined;
+
+  function isWatchableFolder(path: string): boolean {
+    const name = pathLib.basename(path);
+    if (name.startsWith('.') || name === 'node_modules') {
+      return false;
+    }
+    try {
+      return fs.statSync(path).isDirectory();
+    } catch (e) {
+      // The path was removed.
+      return false;
+    }
+  }
+
+  function watchFolder(folder: string) {
+    if (watchers.has(folder)) {
+      return;
+    }
+    let watcher: fs.FSWatcher;
+    try {
+      watcher = fs.watch(folder, (_event: string, filename: string) => {
+        if (filename) {
+          onChange(pathLib.join(folder, filename));
+        }
+      });
+    } catch (e) {
+      // The folder was removed before it could be watched.
+      return;
+    }
+    watcher.on('error', () => {
+      watcher.close();
+      watchers.delete(folder);
+    });
+    watchers.set(folder, watcher);
+    for (const name of fs.readdirSync(folder)) {
+      const path = pathLib.join(folder, name);
+      if (isWatchableFolder(path)) {
+        watchFolder(path);
+      }
+    }
+  }
+
+  function onChange(path: string) {
+    if (isWatchableFolder(path)) {
+      watchFolder(path);
+      return;
+    }
+    changedPaths.add(path);
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      const paths = [...changedPaths];
+      changedPaths = new Set();
+      timer = undefined;
+      callback(paths);
+    }, delay);
+  }
+
+  for (const folder of folders) {
+    watchFolder(pathLib.resolve(folder));
+  }
+
+  return {
+    close() {
+      if (timer) {
+        clearTimeout(timer);
+        timer = undefined;
+      }
+      for (const watcher of watchers.values()) {
+        watcher.close();
+      }
+      watchers.clear();
+    }
+  };
+}
@@ -0,0 +1 @@
+window.shared = true;